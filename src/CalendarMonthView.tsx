@@ -0,0 +1,353 @@
+/**
+ * 月历视图 - 按月显示日期网格，可翻页，点击标题后用年、月滚轮快速跳转
+ */
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import type { DateColumnOrder } from './i18n';
+import {
+  type DateBounds,
+  type DateDisabledPredicate,
+  buildMonthGrid,
+  buildYearList,
+  buildMonthList,
+  pickNearest,
+} from './dateUtils';
+import type { DatePickerTheme } from './theme';
+import { WheelPicker, useWheelGeometry } from './WheelPicker';
+
+export interface CalendarMonthViewProps {
+  selectedDate: Date;
+  /** 可选范围，范围外的日期显示为灰色且不能点击 */
+  bounds: DateBounds;
+  onSelect: (date: Date) => void;
+  isDateDisabled?: DateDisabledPredicate;
+  /** 第一列是星期几，0 为周日 */
+  firstDayOfWeek: number;
+  /** 从周日开始的星期名称 */
+  weekdayNames: string[];
+  /** 标题和跳转滚轮中年、月的先后顺序 */
+  columnOrder: DateColumnOrder;
+  formatYear: (year: number) => string;
+  formatMonth: (month: number) => string;
+  formatDay: (day: number) => string;
+  /** 屏幕阅读器读出的名称 */
+  labels: CalendarMonthViewLabels;
+  theme: DatePickerTheme;
+  /** 标记为今天的日期，默认为设备的今天；按时区显示时传入该时区的今天 */
+  today?: Date;
+}
+
+export interface CalendarMonthViewLabels {
+  year: string;
+  month: string;
+  previousMonth: string;
+  nextMonth: string;
+}
+
+const HEADER_HEIGHT = 36;
+const WEEKDAY_ROW_HEIGHT = 24;
+const DAY_CELL_HEIGHT = 35;
+export const CALENDAR_HEIGHT = HEADER_HEIGHT + WEEKDAY_ROW_HEIGHT + DAY_CELL_HEIGHT * 6;
+
+// 只比较年月日
+const toDayNumber = (year: number, month: number, day: number) => year * 10000 + month * 100 + day;
+const dateToDayNumber = (date: Date) => toDayNumber(date.getFullYear(), date.getMonth() + 1, date.getDate());
+
+export const CalendarMonthView: React.FC<CalendarMonthViewProps> = ({
+  selectedDate,
+  bounds,
+  onSelect,
+  isDateDisabled,
+  firstDayOfWeek,
+  weekdayNames,
+  columnOrder,
+  formatYear,
+  formatMonth,
+  formatDay,
+  labels,
+  theme,
+  today: todayDate,
+}) => {
+  const { colors, fonts, radius } = theme;
+  // 跳转滚轮使用默认尺寸，指示器随系统字体缩放对齐
+  const wheelGeometry = useWheelGeometry();
+
+  // 当前显示的月份，与选中日期分开，翻页不会改变选中日期
+  const [viewYear, setViewYear] = useState(selectedDate.getFullYear());
+  const [viewMonth, setViewMonth] = useState(selectedDate.getMonth() + 1);
+  // 是否显示年、月跳转滚轮
+  const [isJumping, setIsJumping] = useState(false);
+
+  // 选中日期从外部改变时（如切换范围标签页），跳到该日期所在的月份
+  const selectedTime = selectedDate.getTime();
+  useEffect(() => {
+    const date = new Date(selectedTime);
+    setViewYear(date.getFullYear());
+    setViewMonth(date.getMonth() + 1);
+  }, [selectedTime]);
+
+  const minDay = dateToDayNumber(bounds.minDate);
+  const maxDay = dateToDayNumber(bounds.maxDate);
+  const selectedDay = dateToDayNumber(selectedDate);
+  const today = dateToDayNumber(todayDate ?? new Date());
+
+  const grid = useMemo(() => buildMonthGrid(viewYear, viewMonth, firstDayOfWeek), [viewYear, viewMonth, firstDayOfWeek]);
+  const weekdays = Array.from({ length: 7 }, (_, i) => weekdayNames[(firstDayOfWeek + i) % 7]);
+
+  const viewMonthIndex = viewYear * 12 + viewMonth - 1;
+  const minMonthIndex = bounds.minDate.getFullYear() * 12 + bounds.minDate.getMonth();
+  const maxMonthIndex = bounds.maxDate.getFullYear() * 12 + bounds.maxDate.getMonth();
+  const canGoPrev = viewMonthIndex > minMonthIndex;
+  const canGoNext = viewMonthIndex < maxMonthIndex;
+
+  // 翻页，超出范围时不翻
+  const goToMonth = (monthIndex: number) => {
+    const index = Math.max(minMonthIndex, Math.min(monthIndex, maxMonthIndex));
+    setViewYear(Math.floor(index / 12));
+    setViewMonth((index % 12) + 1);
+  };
+
+  const isDayDisabled = (day: number) => {
+    const dayNumber = toDayNumber(viewYear, viewMonth, day);
+    if (dayNumber < minDay || dayNumber > maxDay) return true;
+    return !!isDateDisabled && isDateDisabled(new Date(viewYear, viewMonth - 1, day));
+  };
+
+  const handleDayPress = (day: number) => {
+    if (isDayDisabled(day)) return;
+    onSelect(new Date(viewYear, viewMonth - 1, day));
+  };
+
+  // 跳转滚轮：年份切换后月份取最接近的有效值
+  const years = buildYearList(bounds);
+  const months = buildMonthList(viewYear, bounds);
+  const handleJumpYear = (year: number) => {
+    const nextMonths = buildMonthList(year, bounds);
+    setViewYear(year);
+    if (nextMonths.length > 0) {
+      setViewMonth(pickNearest(nextMonths, viewMonth));
+    }
+  };
+
+  const yearFirst = columnOrder === 'YMD';
+  const title = yearFirst
+    ? `${formatYear(viewYear)} ${formatMonth(viewMonth)}`
+    : `${formatMonth(viewMonth)} ${formatYear(viewYear)}`;
+  // 屏幕阅读器读出的完整日期，顺序与标题相同
+  const formatDate = (day: number) => {
+    const dayText = formatDay(day);
+    if (columnOrder === 'YMD') return `${formatYear(viewYear)} ${formatMonth(viewMonth)} ${dayText}`;
+    if (columnOrder === 'MDY') return `${formatMonth(viewMonth)} ${dayText} ${formatYear(viewYear)}`;
+    return `${dayText} ${formatMonth(viewMonth)} ${formatYear(viewYear)}`;
+  };
+  const textStyle = { color: colors.itemText, fontFamily: fonts.family };
+
+  const yearWheel = (
+    <WheelPicker
+      key="year"
+      items={years}
+      selectedIndex={years.indexOf(viewYear)}
+      onChange={(_, year) => handleJumpYear(year)}
+      renderLabel={formatYear}
+      theme={theme}
+      accessibilityLabel={labels.year}
+      style={styles.jumpColumn}
+    />
+  );
+  const monthWheel = (
+    <WheelPicker
+      key="month"
+      items={months}
+      selectedIndex={months.indexOf(viewMonth)}
+      onChange={(_, month) => setViewMonth(month)}
+      renderLabel={formatMonth}
+      theme={theme}
+      accessibilityLabel={labels.month}
+      style={styles.jumpColumn}
+    />
+  );
+
+  // 高度固定，切换跳转滚轮时不跳动；系统字体放大后滚轮变高，按滚轮的高度增加
+  const height = Math.max(CALENDAR_HEIGHT, HEADER_HEIGHT + wheelGeometry.height);
+
+  return (
+    <View style={{ height }}>
+      {/* 标题：上一月、年月（点击切换跳转滚轮）、下一月 */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => goToMonth(viewMonthIndex - 1)}
+          disabled={!canGoPrev || isJumping}
+          accessibilityRole="button"
+          accessibilityLabel={labels.previousMonth}
+          accessibilityState={{ disabled: !canGoPrev || isJumping }}
+          style={[styles.arrowButton, (!canGoPrev || isJumping) && styles.arrowButtonDisabled]}
+        >
+          <Text style={[styles.arrowText, textStyle]}>‹</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setIsJumping(!isJumping)}
+          style={styles.titleButton}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: isJumping }}
+        >
+          <Text style={[styles.titleText, textStyle, { fontSize: fonts.buttonSize }, isJumping && { color: colors.confirmText }]}>
+            {title}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => goToMonth(viewMonthIndex + 1)}
+          disabled={!canGoNext || isJumping}
+          accessibilityRole="button"
+          accessibilityLabel={labels.nextMonth}
+          accessibilityState={{ disabled: !canGoNext || isJumping }}
+          style={[styles.arrowButton, (!canGoNext || isJumping) && styles.arrowButtonDisabled]}
+        >
+          <Text style={[styles.arrowText, textStyle]}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isJumping ? (
+        <View style={styles.jumpRow}>
+          {/* 中间选中指示器 */}
+          <View
+            style={[
+              styles.jumpIndicator,
+              { top: wheelGeometry.padding, height: wheelGeometry.itemHeight },
+              { borderRadius: radius.selection, backgroundColor: colors.selectionBackground },
+            ]}
+          />
+          {yearFirst ? [yearWheel, monthWheel] : [monthWheel, yearWheel]}
+        </View>
+      ) : (
+        <>
+          {/* 星期 */}
+          <View style={styles.weekdayRow} importantForAccessibility="no-hide-descendants" accessibilityElementsHidden>
+            {weekdays.map((name, index) => (
+              <Text
+                key={`${name}-${index}`}
+                style={[styles.weekdayText, { color: colors.cancelText, fontFamily: fonts.family }]}
+              >
+                {name}
+              </Text>
+            ))}
+          </View>
+
+          {/* 日期网格 */}
+          {grid.map((week, weekIndex) => (
+            <View key={weekIndex} style={styles.weekRow}>
+              {week.map((day, weekday) => {
+                if (day === null) {
+                  return <View key={weekday} style={styles.dayCell} />;
+                }
+                const dayNumber = toDayNumber(viewYear, viewMonth, day);
+                const isSelected = dayNumber === selectedDay;
+                const disabled = isDayDisabled(day);
+                return (
+                  <TouchableOpacity
+                    key={weekday}
+                    onPress={() => handleDayPress(day)}
+                    disabled={disabled}
+                    style={styles.dayCell}
+                    accessibilityRole="button"
+                    accessibilityLabel={formatDate(day)}
+                    accessibilityState={{ selected: isSelected, disabled }}
+                    activeOpacity={0.7}
+                  >
+                    <View
+                      style={[
+                        styles.dayCircle,
+                        { borderRadius: radius.selection },
+                        isSelected && { backgroundColor: colors.selectionBackground },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.dayText,
+                          textStyle,
+                          dayNumber === today && { color: colors.confirmText, fontWeight: '600' },
+                          isSelected && { color: colors.confirmText, fontWeight: '600' },
+                          disabled && { color: colors.disabledItemText },
+                        ]}
+                      >
+                        {formatDay(day)}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: HEADER_HEIGHT,
+  },
+  arrowButton: {
+    width: 44,
+    height: HEADER_HEIGHT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowButtonDisabled: {
+    opacity: 0.3,
+  },
+  arrowText: {
+    fontSize: 24,
+  },
+  titleButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  titleText: {
+    fontWeight: '500',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    height: WEEKDAY_ROW_HEIGHT,
+    alignItems: 'center',
+  },
+  weekdayText: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    height: DAY_CELL_HEIGHT,
+  },
+  dayCell: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayCircle: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayText: {
+    fontSize: 15,
+  },
+  jumpRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  jumpIndicator: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
+  jumpColumn: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,725 @@
+/**
+ * 内嵌日期选择器 - 只包含滚轮和范围选择的标签页，没有弹窗、遮罩和工具栏，选中值实时回调
+ */
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  AccessibilityInfo,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+import { type Locale, type DatePickerI18n, type DateColumnOrder, getI18nConfig, localizeDigits } from './i18n';
+import {
+  type DatePickerMode,
+  type DatePrecision,
+  type DateValue,
+  type DatePickerColumn,
+  type DateDisabledPredicate,
+  DEFAULT_MIN_DATE,
+  PM,
+  resolveDateBounds,
+  getRangeEndBounds,
+  isPartsDisabled,
+  clampDate,
+  dateToParts,
+  clampRangeEnd,
+  toDateValue,
+  resolveCalendar,
+  subtractYears,
+  getAge,
+  getAgeBounds,
+  isColumnLoopable,
+} from './dateUtils';
+import type { DatePickerCalendar } from './calendars';
+import { type DatePickerThemeOverrides, useDatePickerTheme } from './theme';
+import { useDatePicker } from './useDatePicker';
+import { useScreenReaderEnabled } from './accessibility';
+import { type WheelEffect, WheelPicker, useWheelGeometry } from './WheelPicker';
+import { CalendarMonthView } from './CalendarMonthView';
+import { type DatePickerPreset, getDefaultDatePresets, resolvePresetDate } from './presets';
+import {
+  type DateInput,
+  type DateValueFormat,
+  type FormattedDate,
+  parseDateInput,
+  formatDateValue,
+} from './dateFormat';
+
+/** 开始和结束日期；回调中的类型由 valueFormat 决定 */
+export interface DateRange<D = Date> {
+  start: D;
+  end: D;
+}
+
+export type DateRangeTab = 'start' | 'end';
+
+/** 日期的显示方式：滚轮或月历 */
+export type DatePickerDisplay = 'wheel' | 'calendar';
+
+/** 自定义滚轮选项时传入的信息 */
+export interface DatePickerItemInfo {
+  column: DatePickerColumn;
+  value: number;
+  /** 默认显示的文本，已按历法和 locale 格式化 */
+  label: string;
+  /** 是否位于屏幕中心，滚动中随时变化 */
+  selected: boolean;
+  disabled: boolean;
+}
+
+export interface DatePickerBaseProps {
+  /** 日期参数都可以传 Date、'YYYY-MM-DD' 字符串或 { year, month, day } 对象 */
+  initialDate?: DateInput;
+  minDate?: DateInput;
+  maxDate?: DateInput;
+  /** IANA 时区，如 'Asia/Shanghai'；传入和回调的 Date 按该时区的日期和时间解释，不传时使用设备时区 */
+  timeZone?: string;
+  /** 是否允许选择今天之后的日期，默认 false（maxDate 会被限制到今天） */
+  allowFutureDates?: boolean;
+  /**
+   * 出生日期的年龄限制：在 referenceDate 当天至少满 minAge 周岁、至多 maxAge 周岁，2 月 29 日按平年的 3 月 1 日长一岁；
+   * 与 minDate/maxDate 同时传入时取更严格的范围
+   */
+  minAge?: number;
+  maxAge?: number;
+  /** 计算年龄的日期，默认今天；传入任一年龄选项时，onChange 和 onConfirm 的 value 中带有 age（精度为年月日时） */
+  referenceDate?: DateInput;
+  /** 未传入 initialDate 和 value 时，打开时定位到 initialAge 年前的同一天，如生日选择从 25 年前开始 */
+  initialAge?: number;
+  /** 选择模式：仅日期、仅时间或日期加时间，默认 'date' */
+  mode?: DatePickerMode;
+  /** 日期精度，控制显示年、月、日中的哪些列，默认 'year-month-day' */
+  precision?: DatePrecision;
+  /** 年月日列的排列顺序，默认由 locale 决定（如 zh-CN 为 'YMD'，en-US 为 'MDY'） */
+  columnOrder?: DateColumnOrder;
+  /** 分钟列的步长，需能整除 60，默认 1 */
+  minuteInterval?: number;
+  /** 是否使用 24 小时制，默认 true；为 false 时显示上午/下午列 */
+  is24Hour?: boolean;
+  /** 禁用单个日期（如周末、节假日），禁用的日期在日列中显示为灰色 */
+  isDateDisabled?: DateDisabledPredicate;
+  /** 年、月、日列使用的历法（如农历、佛历、日本年号），默认公历 */
+  calendar?: DatePickerCalendar;
+  /** 月、日、时、分列首尾相连循环滚动，默认 false；可选值被 minDate/maxDate 截断的列不循环 */
+  loop?: boolean;
+  /** 滚轮选项跟随滚动的效果：'flat'、'fade' 或 'drum'，默认 'fade' */
+  wheelEffect?: WheelEffect;
+  /** 滚轮每一项的高度，默认 WHEEL_ITEM_HEIGHT；系统字体放大时按比例增加 */
+  itemHeight?: number;
+  /** 滚轮可见的项数，默认 WHEEL_VISIBLE_ITEM_COUNT；偶数时加 1 */
+  visibleItemCount?: number;
+  /** 自定义滚轮选项的内容，不传时显示默认文本 */
+  renderItem?: (info: DatePickerItemInfo) => React.ReactNode;
+  /**
+   * 滚轮上方的快捷选项，点击后所有列滚动到对应日期；传 true 时使用 locale 的默认选项（今天、昨天、30 天前）。
+   * 超出可选范围或被禁用的日期显示为灰色，mode 为 'time' 或精度为 'month-day' 时不显示
+   */
+  presets?: boolean | DatePickerPreset[];
+  /** 显示方式，默认 'wheel'；'calendar' 只在 mode 为 'date' 且精度为年月日时生效，月历始终使用公历 */
+  display?: DatePickerDisplay;
+  /** 月历第一列是星期几，0 为周日，默认由 locale 决定 */
+  firstDayOfWeek?: number;
+  locale?: Locale;
+  /** 主题，不传时使用 DatePickerThemeProvider 或跟随系统深色模式的内置主题 */
+  theme?: DatePickerThemeOverrides;
+  i18n?: Partial<DatePickerI18n>;
+  /** 某一列滚动停下、选中值改变时调用，可用于触发触感反馈 */
+  onColumnChange?: (column: DatePickerColumn, value: number) => void;
+  /** 任一列开始拖动时传入 true，所有列停下并提交选中值后传入 false */
+  onScrollStateChange?: (isScrolling: boolean) => void;
+  /** 滚轮获得键盘焦点时按下 Enter 调用 */
+  onSubmit?: () => void;
+  /** 选中值移到禁用日期上或离开禁用日期时调用，范围选择时两个日期都会检查 */
+  onDisabledChange?: (disabled: boolean) => void;
+  /**
+   * testID 前缀，默认 'date-picker'；各列为 `${testID}-column-${column}`，各项为 `${testID}-column-${column}-item-${value}`，
+   * 范围标签页为 `${testID}-tab-start`/`${testID}-tab-end`，快捷选项为 `${testID}-preset-${index}`
+   */
+  testID?: string;
+  style?: StyleProp<ViewStyle>;
+  /** 滚轮区域（范围标签页下方）的样式 */
+  pickerStyle?: StyleProp<ViewStyle>;
+}
+
+export interface SingleDatePickerProps<F extends DateValueFormat = 'date'> extends DatePickerBaseProps {
+  range?: false;
+  /** 受控的选中值，变化时滚轮定位到该日期；优先于 initialDate */
+  value?: DateInput;
+  /** 回调中日期的格式：'date'（默认）、'string'（'YYYY-MM-DD'）或 'object'（{ year, month, day }） */
+  valueFormat?: F;
+  /** 选中值变化时调用（包括初始值）；date 按精度归一化，value 只包含显示的列 */
+  onChange?: (date: FormattedDate<F>, value: DateValue) => void;
+}
+
+export interface RangeDatePickerProps<F extends DateValueFormat = 'date'> extends DatePickerBaseProps {
+  /** 范围选择模式：通过“开始/结束”两个标签页共用同一组滚轮 */
+  range: true;
+  /** 初始范围，未传入开始日期时使用 initialDate */
+  initialRange?: Partial<DateRange<DateInput>>;
+  /** 受控的范围，变化时两个标签页的日期都会更新；优先于 initialRange */
+  value?: DateRange<DateInput>;
+  /** 回调中日期的格式：'date'（默认）、'string'（'YYYY-MM-DD'）或 'object'（{ year, month, day }） */
+  valueFormat?: F;
+  /** 结束日期与开始日期之间最多相差的天数 */
+  maxRangeDays?: number;
+  /** 开始或结束日期变化时调用（包括初始值），结束日期已限制在有效范围内 */
+  onChange?: (range: DateRange<FormattedDate<F>>, value: { start: DateValue; end: DateValue }) => void;
+}
+
+export type DatePickerProps<F extends DateValueFormat = 'date'> = SingleDatePickerProps<F> | RangeDatePickerProps<F>;
+
+// 范围选择标签页的高度，不含上方留白（theme.spacing.rangeTabsTop）
+export const RANGE_TABS_HEIGHT = 36;
+
+/** 默认的 testID 前缀 */
+export const DATE_PICKER_TEST_ID = 'date-picker';
+
+const padNumber = (value: number) => String(value).padStart(2, '0');
+
+export function DatePicker<F extends DateValueFormat = 'date'>(props: DatePickerProps<F>): React.ReactElement {
+  const {
+    timeZone,
+    allowFutureDates = false,
+    minAge,
+    maxAge,
+    initialAge,
+    mode = 'date',
+    precision = 'year-month-day',
+    columnOrder,
+    minuteInterval = 1,
+    is24Hour = true,
+    isDateDisabled,
+    calendar,
+    loop = false,
+    wheelEffect,
+    itemHeight,
+    visibleItemCount,
+    renderItem,
+    presets,
+    display = 'wheel',
+    firstDayOfWeek,
+    locale = 'zh-CN',
+    theme: themeOverride,
+    i18n: customI18n,
+    onColumnChange,
+    onScrollStateChange,
+    onSubmit,
+    onDisabledChange,
+    testID = DATE_PICKER_TEST_ID,
+    style,
+    pickerStyle,
+  } = props;
+  const isRange = props.range === true;
+
+  // 日期参数统一转为滚轮使用的本地时间；字符串和对象按字面的日期解析，不受时区影响
+  const parseDate = (input?: DateInput) => parseDateInput(input, timeZone);
+  // timeZone 中的当前时间：今天的上限、默认选中值、日历中的今天、快捷选项和年龄的参考日期都按它计算
+  const currentTime = new Date();
+  const now = parseDate(currentTime) ?? currentTime;
+  const todayTime = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+
+  // 年龄按参考日期（默认为 timeZone 中的今天）计算，年龄限制与 minDate/maxDate 取更严格的一端
+  const isAgePicker = minAge !== undefined || maxAge !== undefined || initialAge !== undefined || props.referenceDate !== undefined;
+  const referenceDate = parseDate(props.referenceDate) ?? now;
+  const ageBounds = getAgeBounds({ minAge, maxAge, referenceDate });
+  const laterDate = (a?: Date, b?: Date) => (a && b ? (a > b ? a : b) : a ?? b);
+  const earlierDate = (a?: Date, b?: Date) => (a && b ? (a < b ? a : b) : a ?? b);
+
+  const initialDate = parseDate(props.initialDate) ?? (initialAge !== undefined ? subtractYears(referenceDate, initialAge) : undefined);
+  const minDate = laterDate(parseDate(props.minDate), ageBounds.minDate) ?? DEFAULT_MIN_DATE;
+  // 选择时间时，最晚的出生日期当天的任意时间都可选
+  const ageMaxDate = ageBounds.maxDate && mode !== 'date'
+    ? new Date(ageBounds.maxDate.getFullYear(), ageBounds.maxDate.getMonth(), ageBounds.maxDate.getDate(), 23, 59)
+    : ageBounds.maxDate;
+  const maxDate = earlierDate(parseDate(props.maxDate), ageMaxDate);
+  const singleValue = props.range ? undefined : parseDate(props.value);
+  const rangeValueStart = props.range ? parseDate(props.value?.start) : undefined;
+  const rangeValueEnd = props.range ? parseDate(props.value?.end) : undefined;
+  const rangeValue = rangeValueStart && rangeValueEnd ? { start: rangeValueStart, end: rangeValueEnd } : undefined;
+  const initialRange = props.range
+    ? rangeValue ?? { start: parseDate(props.initialRange?.start), end: parseDate(props.initialRange?.end) }
+    : undefined;
+  const maxRangeDays = props.range ? props.maxRangeDays : undefined;
+
+  // 回调中的日期按 valueFormat 输出
+  const valueFormat: DateValueFormat = props.valueFormat ?? 'date';
+  const formatOutput = (date: Date) => formatDateValue(date, valueFormat, { mode, timeZone }) as FormattedDate<F>;
+
+  const theme = useDatePickerTheme(themeOverride);
+  const { colors, fonts, radius, spacing } = theme;
+
+  // Get i18n configuration
+  // getI18nConfig 返回缓存的对象，registerLocale 之后得到新的对象，已显示的选择器在下次渲染时随之更新
+  const baseI18n = getI18nConfig(locale);
+  const i18nConfig = useMemo(() => ({
+    ...baseI18n,
+    ...customI18n,
+  }), [baseI18n, customI18n]);
+
+  // 实际可选范围；用时间戳做依赖，避免每次渲染传入新的 Date 对象导致重新初始化
+  const minDateTime = minDate.getTime();
+  const maxDateTime = maxDate?.getTime();
+  const bounds = useMemo(() => resolveDateBounds({
+    minDate: new Date(minDateTime),
+    maxDate: maxDateTime !== undefined ? new Date(maxDateTime) : undefined,
+    allowFutureDates,
+    mode,
+    precision,
+    calendar,
+    today: new Date(todayTime),
+  }), [minDateTime, maxDateTime, allowFutureDates, mode, precision, calendar, todayTime]);
+
+  // 范围选择：当前编辑的标签页，以及切换标签页时保存下来的开始/结束日期
+  const [activeRangeTab, setActiveRangeTab] = useState<DateRangeTab>('start');
+  const [rangeStart, setRangeStart] = useState<Date | undefined>(undefined);
+  const [rangeEnd, setRangeEnd] = useState<Date | undefined>(undefined);
+
+  // 编辑结束日期时，下限跟随开始日期，上限受 maxRangeDays 限制
+  const rangeStartTime = rangeStart?.getTime();
+  const isEditingRangeEnd = isRange && activeRangeTab === 'end' && rangeStartTime !== undefined;
+  const pickerBounds = useMemo(() => {
+    return isEditingRangeEnd ? getRangeEndBounds(new Date(rangeStartTime), bounds, maxRangeDays) : bounds;
+  }, [isEditingRangeEnd, rangeStartTime, bounds, maxRangeDays]);
+
+  // 滚轮定位的日期：范围选择时为当前标签页对应的日期
+  const targetDate = !isRange
+    ? singleValue ?? initialDate
+    : activeRangeTab === 'start'
+      ? rangeStart ?? initialRange?.start ?? initialDate
+      : rangeEnd ?? initialRange?.end ?? rangeStart;
+
+  // 选中值、各列可选值和联动逻辑都由 useDatePicker 提供，这里只负责显示
+  const picker = useDatePicker({
+    initialDate: targetDate,
+    minDate: pickerBounds.minDate,
+    maxDate: pickerBounds.maxDate,
+    allowFutureDates,
+    mode,
+    precision,
+    columnOrder: columnOrder ?? i18nConfig.dateOrder,
+    minuteInterval,
+    is24Hour,
+    isDateDisabled,
+    calendar,
+    today: now,
+  });
+  const { options: columnValues, reset: resetPicker } = picker;
+  // 月日精度时始终使用公历
+  const activeCalendar = resolveCalendar(picker.config);
+
+  // 切换标签页后，滚轮定位到该标签页保存的日期；initialDate 只在首次显示时使用
+  useEffect(() => {
+    if (isRange) {
+      resetPicker(targetDate);
+    }
+  }, [activeRangeTab]);
+
+  // 范围选择时，当前标签页的日期实时更新，另一个日期使用保存的值
+  const rangeSelection = useMemo(() => {
+    if (!isRange) return undefined;
+    const start = activeRangeTab === 'start' ? picker.date : rangeStart ?? picker.date;
+    const end = activeRangeTab === 'end' ? picker.date : rangeEnd ?? initialRange?.end ?? picker.date;
+    // 开始日期可能在编辑后晚于结束日期或超出最大跨度，此时把结束日期限制到有效范围内
+    return { start, end: clampRangeEnd(start, end, bounds, maxRangeDays) };
+  }, [isRange, activeRangeTab, picker.date, rangeStart, rangeEnd, initialRange?.end?.getTime(), bounds, maxRangeDays]);
+
+  // 选中禁用日期时视为无效；范围选择时另一个标签页保存的日期也需要检查
+  const isStoredDateDisabled = (date?: Date) => !!date && isPartsDisabled(dateToParts(date, activeCalendar), picker.config, isDateDisabled);
+  const isSelectionDisabled = picker.isDisabled || (isRange && (
+    activeRangeTab === 'start' ? isStoredDateDisabled(rangeEnd ?? initialRange?.end) : isStoredDateDisabled(rangeStart)
+  ));
+
+  // 受控值从外部改变时（与当前选中值不同），滚轮定位到新的值
+  const singleValueTime = singleValue?.getTime();
+  useEffect(() => {
+    if (singleValueTime !== undefined && singleValueTime !== picker.date.getTime()) {
+      resetPicker(new Date(singleValueTime));
+    }
+  }, [singleValueTime]);
+
+  const rangeValueStartTime = rangeValue?.start.getTime();
+  const rangeValueEndTime = rangeValue?.end.getTime();
+  useEffect(() => {
+    if (rangeValueStartTime === undefined || rangeValueEndTime === undefined || !rangeSelection) return;
+    if (rangeValueStartTime === rangeSelection.start.getTime() && rangeValueEndTime === rangeSelection.end.getTime()) return;
+    const start = new Date(rangeValueStartTime);
+    const end = new Date(rangeValueEndTime);
+    setRangeStart(start);
+    setRangeEnd(end);
+    resetPicker(activeRangeTab === 'start' ? start : end);
+  }, [rangeValueStartTime, rangeValueEndTime]);
+
+  // 回调中的结构化日期，生日选择时带上年龄
+  const toOutputValue = (date: Date): DateValue => {
+    const value = toDateValue(date, precision, activeCalendar);
+    if (isAgePicker && precision === 'year-month-day' && mode !== 'time') {
+      value.age = getAge(date, referenceDate);
+    }
+    return value;
+  };
+
+  // 回调中使用最新的 onChange，避免传入新的函数时重复回调
+  const onChangeRef = useRef(props.onChange);
+  onChangeRef.current = props.onChange;
+  const onDisabledChangeRef = useRef(onDisabledChange);
+  onDisabledChangeRef.current = onDisabledChange;
+
+  // 实时回调选中值
+  const selectionKey = rangeSelection
+    ? `${rangeSelection.start.getTime()}-${rangeSelection.end.getTime()}`
+    : String(picker.date.getTime());
+  useEffect(() => {
+    if (rangeSelection) {
+      const onChange = onChangeRef.current as RangeDatePickerProps<F>['onChange'];
+      onChange?.({ start: formatOutput(rangeSelection.start), end: formatOutput(rangeSelection.end) }, {
+        start: toOutputValue(rangeSelection.start),
+        end: toOutputValue(rangeSelection.end),
+      });
+    } else {
+      const onChange = onChangeRef.current as SingleDatePickerProps<F>['onChange'];
+      onChange?.(formatOutput(picker.date), toOutputValue(picker.date));
+    }
+  }, [selectionKey]);
+
+  useEffect(() => {
+    onDisabledChangeRef.current?.(isSelectionDisabled);
+  }, [isSelectionDisabled]);
+
+  // 屏幕阅读器开启时，选中值变化后读出完整的日期（不包括初始值）
+  const isScreenReaderEnabled = useScreenReaderEnabled();
+  const announcedDateTime = useRef(picker.date.getTime());
+  useEffect(() => {
+    const dateTime = picker.date.getTime();
+    if (dateTime === announcedDateTime.current) return;
+    announcedDateTime.current = dateTime;
+    if (isScreenReaderEnabled) {
+      const label = isRange
+        ? (activeRangeTab === 'start' ? i18nConfig.rangeStart : i18nConfig.rangeEnd)
+        : i18nConfig.selectedDateLabel;
+      const text = picker.columns.map(column => buildLabel(column, picker.values[column])).join(' ');
+      AccessibilityInfo.announceForAccessibility(`${label}, ${text}`);
+    }
+  }, [picker.date]);
+
+  // 切换开始/结束标签页，先保存当前标签页滚轮上的日期
+  const handleRangeTabPress = (tab: DateRangeTab) => {
+    if (tab === activeRangeTab) return;
+    if (activeRangeTab === 'start') {
+      setRangeStart(picker.date);
+    } else {
+      setRangeEnd(picker.date);
+    }
+    setActiveRangeTab(tab);
+  };
+
+  // 补齐两位并转换为 locale 的数字
+  const formatNumber = (value: number) => localizeDigits(padNumber(value), i18nConfig.digits);
+
+  // 构建各列的默认显示文本（公历）
+  const buildDefaultLabel = (column: DatePickerColumn, value: number): string => {
+    switch (column) {
+      case 'year':
+        return `${localizeDigits(String(value), i18nConfig.digits)}${i18nConfig.yearSuffix}`;
+      case 'month':
+        if (i18nConfig.monthNames && i18nConfig.monthNames.length === 12) {
+          return i18nConfig.monthNames[value - 1];
+        }
+        return `${formatNumber(value)}${i18nConfig.monthSuffix}`;
+      case 'day':
+        return `${formatNumber(value)}${i18nConfig.daySuffix}`;
+      case 'hour':
+        return `${formatNumber(is24Hour ? value : (value % 12 || 12))}${i18nConfig.hourSuffix}`;
+      case 'minute':
+        return `${formatNumber(value)}${i18nConfig.minuteSuffix}`;
+      case 'meridiem':
+        return value === PM ? i18nConfig.pm : i18nConfig.am;
+    }
+  };
+
+  // 构建各列的显示文本，历法提供了文本时使用历法的文本
+  const buildLabel = (column: DatePickerColumn, value: number): string => {
+    const { year, month, day } = picker.parts;
+    const labelContext = { locale, month, day };
+    if (column === 'year' && activeCalendar.formatYear) {
+      return activeCalendar.formatYear(value, labelContext);
+    }
+    if (column === 'month' && activeCalendar.formatMonth) {
+      return activeCalendar.formatMonth(year, value, labelContext);
+    }
+    if (column === 'day' && activeCalendar.formatDay) {
+      return activeCalendar.formatDay(year, month, value, labelContext);
+    }
+    return buildDefaultLabel(column, value);
+  };
+
+  // 快捷选项：日期按精度比较，超出可选范围（范围选择时为当前标签页的范围）或被禁用时不可点击
+  const presetItems = useMemo(() => {
+    if (!presets || mode === 'time' || precision === 'month-day') return [];
+    return presets === true ? getDefaultDatePresets(i18nConfig) : presets;
+  }, [presets, mode, precision, i18nConfig]);
+  const precisionKey = (date: Date) => {
+    const { year, month, day } = toDateValue(date, precision);
+    return `${year}-${month}-${day}`;
+  };
+  // 同时显示时间时，快捷选项只改变日期，保留滚轮上的时间
+  const resolvePreset = (preset: DatePickerPreset) => {
+    const date = resolvePresetDate(preset, timeZone, currentTime);
+    if (date && mode === 'datetime') {
+      date.setHours(picker.date.getHours(), picker.date.getMinutes(), 0, 0);
+    }
+    return date;
+  };
+  const isPresetDisabled = (date: Date) => {
+    return precisionKey(clampDate(date, picker.bounds)) !== precisionKey(date) || isStoredDateDisabled(date);
+  };
+
+  // 与受控值相同，改变选中值后各列通过 scrollToIndex 滚动到新的位置
+  const handlePresetPress = (date: Date) => {
+    resetPicker(date);
+  };
+
+  const showCalendar = display === 'calendar' && mode === 'date' && precision === 'year-month-day';
+
+  // 月历中选中某一天
+  const handleCalendarSelect = (date: Date) => {
+    resetPicker(date);
+  };
+
+  const columnLabels: Record<DatePickerColumn, string> = {
+    year: i18nConfig.yearLabel,
+    month: i18nConfig.monthLabel,
+    day: i18nConfig.dayLabel,
+    hour: i18nConfig.hourLabel,
+    minute: i18nConfig.minuteLabel,
+    meridiem: i18nConfig.meridiemLabel,
+  };
+
+  // 滚轮停下后更新选中值并通知外部
+  const handleColumnChange = (column: DatePickerColumn, value: number) => {
+    picker.setColumnValue(column, value);
+    onColumnChange?.(column, value);
+  };
+
+  // 正在滚动的列，全部停下后才通知外部
+  const scrollingColumns = useRef(new Set<DatePickerColumn>());
+  const handleColumnScrollStateChange = (column: DatePickerColumn, isScrolling: boolean) => {
+    const wasScrolling = scrollingColumns.current.size > 0;
+    if (isScrolling) {
+      scrollingColumns.current.add(column);
+    } else {
+      scrollingColumns.current.delete(column);
+    }
+    const isAnyScrolling = scrollingColumns.current.size > 0;
+    if (isAnyScrolling !== wasScrolling) {
+      onScrollStateChange?.(isAnyScrolling);
+    }
+  };
+
+  // 列被移除（如切换模式）时不会再收到它的停下事件，直接视为已停下
+  const columnsKey = picker.columns.join(',');
+  useEffect(() => {
+    scrollingColumns.current.forEach(column => {
+      if (!picker.columns.includes(column)) {
+        handleColumnScrollStateChange(column, false);
+      }
+    });
+  }, [columnsKey]);
+
+  // 与各列滚轮相同的尺寸，用于对齐选中指示器
+  const wheelGeometry = useWheelGeometry(itemHeight, visibleItemCount);
+
+  // 构建列组件
+  const buildColumn = (column: DatePickerColumn) => {
+    const values = columnValues[column];
+
+    return (
+      <WheelPicker
+        key={column}
+        items={values}
+        selectedIndex={values.indexOf(picker.values[column])}
+        onChange={(_, value) => handleColumnChange(column, value)}
+        onScrollStateChange={isScrolling => handleColumnScrollStateChange(column, isScrolling)}
+        onSubmit={onSubmit}
+        keyExtractor={value => String(value)}
+        renderLabel={value => buildLabel(column, value)}
+        isItemDisabled={value => picker.isValueDisabled(column, value)}
+        loop={loop && isColumnLoopable(column, picker.parts, values, picker.config)}
+        effect={wheelEffect}
+        itemHeight={itemHeight}
+        visibleItemCount={visibleItemCount}
+        renderItem={renderItem && (({ item, label, selected, disabled }) => renderItem({ column, value: item, label, selected, disabled }))}
+        theme={theme}
+        accessibilityLabel={columnLabels[column]}
+        testID={`${testID}-column-${column}`}
+        style={styles.columnContainer}
+      />
+    );
+  };
+
+  return (
+    <View style={style} testID={testID}>
+      {/* 范围选择的开始/结束标签页 */}
+      {isRange && (
+        <View
+          style={[
+            styles.rangeTabs,
+            {
+              height: RANGE_TABS_HEIGHT + spacing.rangeTabsTop,
+              paddingTop: spacing.rangeTabsTop,
+              paddingHorizontal: spacing.toolbarHorizontal,
+            },
+          ]}
+        >
+          {(['start', 'end'] as const).map(tab => {
+            const isActive = tab === activeRangeTab;
+            return (
+              <TouchableOpacity
+                key={tab}
+                testID={`${testID}-tab-${tab}`}
+                onPress={() => handleRangeTabPress(tab)}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isActive }}
+                style={[
+                  styles.rangeTab,
+                  { borderRadius: radius.tab },
+                  isActive && { backgroundColor: colors.selectionBackground },
+                ]}
+              >
+                <Text
+                  style={[
+                    { color: colors.tabText, fontSize: fonts.tabSize, fontFamily: fonts.family },
+                    isActive && { color: colors.confirmText },
+                  ]}
+                >
+                  {tab === 'start' ? i18nConfig.rangeStart : i18nConfig.rangeEnd}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {/* 快捷选项 */}
+      {presetItems.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={{ paddingTop: spacing.presetsTop, paddingHorizontal: spacing.toolbarHorizontal, gap: spacing.presetGap }}
+        >
+          {presetItems.map((preset, index) => {
+            const date = resolvePreset(preset);
+            const isDisabled = !date || isPresetDisabled(date);
+            const isSelected = !!date && !isDisabled && precisionKey(date) === precisionKey(picker.date);
+            return (
+              <TouchableOpacity
+                key={`${preset.label}-${index}`}
+                testID={`${testID}-preset-${index}`}
+                onPress={() => date && handlePresetPress(date)}
+                disabled={isDisabled}
+                accessibilityRole="button"
+                accessibilityState={{ disabled: isDisabled, selected: isSelected }}
+                style={[
+                  styles.preset,
+                  {
+                    paddingHorizontal: spacing.presetHorizontal,
+                    paddingVertical: spacing.presetVertical,
+                    borderRadius: radius.tab,
+                    borderColor: colors.toolbarBorder,
+                  },
+                  isSelected && { backgroundColor: colors.selectionBackground, borderColor: colors.selectionBackground },
+                ]}
+              >
+                <Text
+                  style={[
+                    { color: colors.tabText, fontSize: fonts.tabSize, fontFamily: fonts.family },
+                    isSelected && { color: colors.confirmText },
+                    isDisabled && { color: colors.disabledItemText },
+                  ]}
+                >
+                  {preset.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {/* 日期选择器 */}
+      <View style={[{ paddingHorizontal: spacing.pickerHorizontal }, pickerStyle]}>
+        {showCalendar ? (
+          <CalendarMonthView
+            selectedDate={picker.date}
+            bounds={picker.bounds}
+            onSelect={handleCalendarSelect}
+            isDateDisabled={isDateDisabled}
+            firstDayOfWeek={firstDayOfWeek ?? i18nConfig.firstDayOfWeek}
+            weekdayNames={i18nConfig.weekdayNames}
+            columnOrder={columnOrder ?? i18nConfig.dateOrder}
+            formatYear={year => buildDefaultLabel('year', year)}
+            formatMonth={month => buildDefaultLabel('month', month)}
+            formatDay={day => localizeDigits(String(day), i18nConfig.digits)}
+            labels={{
+              year: i18nConfig.yearLabel,
+              month: i18nConfig.monthLabel,
+              previousMonth: i18nConfig.previousMonthLabel,
+              nextMonth: i18nConfig.nextMonthLabel,
+            }}
+            theme={theme}
+            today={now}
+          />
+        ) : (
+          <View style={[styles.pickerArea, { height: wheelGeometry.height }]}>
+            {/* 中间选中指示器 */}
+            <View
+              style={[
+                styles.selectedIndicatorContainer,
+                { top: wheelGeometry.padding, height: wheelGeometry.itemHeight },
+                {
+                  borderRadius: radius.selection,
+                  backgroundColor: colors.selectionBackground,
+                }
+              ]}
+            />
+
+            {/* 滚动列 */}
+            <View style={[styles.pickerRow, { height: wheelGeometry.height }]}>
+              {picker.columns.map(column => buildColumn(column))}
+            </View>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  rangeTabs: {
+    flexDirection: 'row',
+  },
+  rangeTab: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  preset: {
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  pickerArea: {
+    position: 'relative',
+  },
+  selectedIndicatorContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+  },
+  columnContainer: {
+    flex: 1,
+  },
+});
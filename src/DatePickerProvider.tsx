@@ -0,0 +1,143 @@
+/**
+ * 命令式调用 - 在根组件挂载一次 DatePickerProvider，之后用 showDatePicker 打开弹窗并等待结果
+ */
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  type DatePickerDialogProps,
+  type SingleDatePickerDialogProps,
+  type RangeDatePickerDialogProps,
+  DatePickerDialog,
+} from './DatePickerDialog';
+import type { DateRange } from './DatePicker';
+import type { DateValueFormat, FormattedDate } from './dateFormat';
+
+// 弹窗的显示和结果由 Provider 管理，不需要受控值
+type DialogCallbackProps = 'visible' | 'value' | 'onConfirm' | 'onCancel' | 'onDismiss';
+
+export type ShowDatePickerOptions<F extends DateValueFormat = 'date'> = Omit<SingleDatePickerDialogProps<F>, DialogCallbackProps>;
+export type ShowDateRangePickerOptions<F extends DateValueFormat = 'date'> = Omit<RangeDatePickerDialogProps<F>, DialogCallbackProps>;
+
+export interface ShowDatePicker {
+  /** 打开弹窗，确认时按 valueFormat 返回选中的日期，取消时返回 null */
+  <F extends DateValueFormat = 'date'>(options?: ShowDatePickerOptions<F>): Promise<FormattedDate<F> | null>;
+  /** 范围选择，确认时返回开始和结束日期，取消时返回 null */
+  <F extends DateValueFormat = 'date'>(options: ShowDateRangePickerOptions<F>): Promise<DateRange<FormattedDate<F>> | null>;
+}
+
+export interface DatePickerProviderProps {
+  /** 应用于每次调用的默认选项，调用时传入的选项优先；valueFormat 决定返回值的类型，只能在调用时传入 */
+  defaultOptions?: Omit<ShowDatePickerOptions, 'range' | 'onChange' | 'valueFormat'>;
+  children?: React.ReactNode;
+}
+
+type AnyShowDatePickerOptions = ShowDatePickerOptions<DateValueFormat> | ShowDateRangePickerOptions<DateValueFormat>;
+
+interface DatePickerRequest {
+  id: number;
+  options: AnyShowDatePickerOptions;
+  resolve: (result: unknown) => void;
+}
+
+const DatePickerContext = createContext<ShowDatePicker | null>(null);
+
+// 最近挂载的 Provider，供全局的 showDatePicker 使用
+let activeShowDatePicker: ShowDatePicker | null = null;
+
+let nextRequestId = 1;
+
+/**
+ * 在根组件挂载一次；弹窗已打开时，新的调用按顺序排队，前一个关闭后再打开
+ */
+export const DatePickerProvider: React.FC<DatePickerProviderProps> = ({ defaultOptions, children }) => {
+  // 第一个为当前显示的弹窗，其余为排队中的调用
+  const [queue, setQueue] = useState<DatePickerRequest[]>([]);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  const show = useCallback((options: AnyShowDatePickerOptions = {}) => {
+    return new Promise<unknown>(resolve => {
+      const request = { id: nextRequestId++, options, resolve };
+      setQueue(current => [...current, request]);
+    });
+  }, []) as ShowDatePicker;
+
+  useEffect(() => {
+    activeShowDatePicker = show;
+    return () => {
+      if (activeShowDatePicker === show) {
+        activeShowDatePicker = null;
+      }
+      // 卸载时未完成的调用都视为取消
+      queueRef.current.forEach(request => request.resolve(null));
+    };
+  }, [show]);
+
+  const current = queue[0];
+
+  // 确认后弹窗还会调用 onDismiss，Promise 只采用第一次的结果
+  const settle = (result: unknown) => {
+    current?.resolve(result);
+  };
+
+  const handleDismiss = () => {
+    settle(null);
+    setQueue(currentQueue => currentQueue.slice(1));
+  };
+
+  const dialogProps = useMemo<DatePickerDialogProps<DateValueFormat> | null>(() => {
+    if (!current) return null;
+    const { options } = current;
+    if (options.range) {
+      return {
+        ...defaultOptions,
+        ...options,
+        visible: true,
+        onConfirm: (range: DateRange<FormattedDate<DateValueFormat>>) => current.resolve(range),
+      };
+    }
+    return {
+      ...defaultOptions,
+      ...options,
+      range: false,
+      visible: true,
+      onConfirm: (date: FormattedDate<DateValueFormat>) => current.resolve(date),
+    };
+  }, [current, defaultOptions]);
+
+  return (
+    <DatePickerContext.Provider value={show}>
+      {children}
+      {current && dialogProps && (
+        // 每次调用使用新的 key，排队的弹窗从自己的初始值开始
+        <DatePickerDialog
+          key={current.id}
+          {...dialogProps}
+          onCancel={() => settle(null)}
+          onDismiss={handleDismiss}
+        />
+      )}
+    </DatePickerContext.Provider>
+  );
+};
+
+/** 在 DatePickerProvider 内部获取 showDatePicker */
+export function useDatePickerDialog(): { showDatePicker: ShowDatePicker } {
+  const show = useContext(DatePickerContext);
+  const showDatePicker = useCallback((options?: AnyShowDatePickerOptions) => {
+    if (!show) {
+      return Promise.reject(new Error('useDatePickerDialog must be used inside a DatePickerProvider'));
+    }
+    return show(options as ShowDatePickerOptions);
+  }, [show]) as ShowDatePicker;
+  return { showDatePicker };
+}
+
+/**
+ * 在组件外部打开弹窗，需要先挂载 DatePickerProvider，否则返回被拒绝的 Promise
+ */
+export const showDatePicker = ((options?: AnyShowDatePickerOptions) => {
+  if (!activeShowDatePicker) {
+    return Promise.reject(new Error('showDatePicker requires a mounted DatePickerProvider'));
+  }
+  return activeShowDatePicker(options as ShowDatePickerOptions);
+}) as ShowDatePicker;
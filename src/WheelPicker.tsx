@@ -0,0 +1,683 @@
+/**
+ * 滚轮选择器 - 单列滚轮，支持吸附、点击选中以及跟随滚动的透明度、缩放和 3D 旋转
+ */
+import React, { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Animated,
+  Platform,
+  useWindowDimensions,
+  type AccessibilityActionEvent,
+  type ListRenderItem,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
+  type StyleProp,
+  type ViewStyle,
+  type TextStyle,
+} from 'react-native';
+import { type DatePickerTheme, type DatePickerThemeOverrides, useDatePickerTheme } from './theme';
+import { useReduceMotion } from './accessibility';
+import { type WheelEvent, type WheelTransition, createWheelState, wheelTransition } from './wheelEngine';
+import { type WebKeyboardEvent, isWeb, webKeyboardProps, useTypeahead, isTypeaheadKey, useWebScrollEnd } from './web';
+
+/** flat：各项样式相同；fade：离中心越远越淡、越小；drum：在 fade 的基础上像 iOS 滚筒一样 3D 旋转 */
+export type WheelEffect = 'flat' | 'fade' | 'drum';
+
+/** 自定义选项时传入的信息 */
+export interface WheelItemInfo<T> {
+  item: T;
+  index: number;
+  /** renderLabel 生成的文本 */
+  label: string;
+  /** 是否位于屏幕中心，滚动中随时变化 */
+  selected: boolean;
+  disabled: boolean;
+}
+
+export interface WheelPickerProps<T> {
+  /** 可选项 */
+  items: T[];
+  /** 当前选中项的索引 */
+  selectedIndex: number;
+  /** 滚动停下或点击选中新的项时调用 */
+  onChange?: (index: number, item: T) => void;
+  /** 开始拖动时传入 true，滚动停下并提交选中值后传入 false */
+  onScrollStateChange?: (isScrolling: boolean) => void;
+  /** 滚轮获得键盘焦点时按下 Enter 调用，如确认弹窗 */
+  onSubmit?: () => void;
+  /** 生成每一项的 key，默认使用显示文本和索引 */
+  keyExtractor?: (item: T, index: number) => string;
+  /** 生成每一项的显示文本，默认使用 String(item) */
+  renderLabel?: (item: T, index: number) => string;
+  /** 禁用的项显示为灰色，滚动停止时会跳过，点击无效 */
+  isItemDisabled?: (item: T, index: number) => boolean;
+  /** 选中项背景色，不传时不显示选中指示器 */
+  selectionBackgroundColor?: string;
+  /** 主题，不传时使用 DatePickerThemeProvider 或内置主题 */
+  theme?: DatePickerThemeOverrides;
+  /** 首尾相连循环滚动，如 12 月之后接着 1 月 */
+  loop?: boolean;
+  /** 选项跟随滚动的效果，默认 'fade' */
+  effect?: WheelEffect;
+  /** 每一项的高度，默认 WHEEL_ITEM_HEIGHT；系统字体放大时按比例增加 */
+  itemHeight?: number;
+  /** 可见的项数，默认 WHEEL_VISIBLE_ITEM_COUNT；偶数时加 1，保证选中项居中 */
+  visibleItemCount?: number;
+  /** 自定义每一项的内容，不传时显示 renderLabel 的文本；滚动效果仍然作用于返回的内容 */
+  renderItem?: (info: WheelItemInfo<T>) => React.ReactNode;
+  /** 屏幕阅读器读出的列名，如“年” */
+  accessibilityLabel?: string;
+  /** 整列的 testID；各项为 `${testID}-item-${key}`，key 为 keyExtractor 的结果，不传 keyExtractor 时为索引 */
+  testID?: string;
+  style?: StyleProp<ViewStyle>;
+  textStyle?: StyleProp<TextStyle>;
+}
+
+export const WHEEL_ITEM_HEIGHT = 46;
+export const WHEEL_VISIBLE_ITEM_COUNT = 5;
+/** 默认尺寸下滚轮的高度 */
+export const WHEEL_HEIGHT = WHEEL_ITEM_HEIGHT * WHEEL_VISIBLE_ITEM_COUNT;
+// 渲染窗口为可见区域的几倍，窗口外的项不渲染
+const VIRTUAL_WINDOW_SIZE = 5;
+// 循环时列表重复的份数，滚动停下后会无动画地回到中间一份的同一项
+const LOOP_COPIES = 9;
+
+// 非负取余
+const mod = (value: number, count: number) => ((value % count) + count) % count;
+
+/** 滚轮的实际尺寸 */
+export interface WheelGeometry {
+  /** 按系统字体缩放后的项高 */
+  itemHeight: number;
+  /** 调整为奇数后的可见项数 */
+  visibleItemCount: number;
+  /** 滚轮总高度 */
+  height: number;
+  /** 选中项上方（也是下方）的留白，即选中指示器的 top */
+  padding: number;
+}
+
+/** 根据项高、可见项数和系统字体缩放计算滚轮尺寸，自定义选中指示器时用来对齐 */
+export function useWheelGeometry(
+  itemHeight: number = WHEEL_ITEM_HEIGHT,
+  visibleItemCount: number = WHEEL_VISIBLE_ITEM_COUNT,
+): WheelGeometry {
+  // 大字体下文字变高，项高随之增加，避免被截断；字体缩小时保持原高度
+  const { fontScale } = useWindowDimensions();
+  return useMemo(() => {
+    const scaledItemHeight = Math.round(itemHeight * Math.max(1, fontScale));
+    const count = Math.max(1, Math.floor(visibleItemCount / 2) * 2 + 1);
+    return {
+      itemHeight: scaledItemHeight,
+      visibleItemCount: count,
+      height: scaledItemHeight * count,
+      padding: scaledItemHeight * (count - 1) / 2,
+    };
+  }, [itemHeight, visibleItemCount, fontScale]);
+}
+
+// 各效果下离中心 0、1、2 项及更远时的透明度
+const FADE_OPACITY = [1, 0.39, 0.1];
+
+// 离中心 distance 项（带符号，中心以上为正）时各效果的样式取值
+const getEffectValues = (effect: WheelEffect, distance: number, geometry: WheelGeometry, fontSize: number) => {
+  const absDistance = Math.abs(distance);
+  const opacity = effect === 'flat' ? 1 : FADE_OPACITY[Math.min(absDistance, FADE_OPACITY.length - 1)];
+  // 与原来逐项减小字号的效果一致：相邻项小 1 号，更远的项小 3 号
+  const fontSizeDelta = absDistance === 0 ? 0 : absDistance === 1 ? 1 : 3;
+  const scale = effect === 'fade' ? (fontSize - fontSizeDelta) / fontSize : 1;
+
+  // 滚筒：每项转过相同角度，最外侧的可见项之外转到 90 度；项在滚筒表面上的投影比平铺时更靠近中心
+  const halfCount = (geometry.visibleItemCount - 1) / 2;
+  const step = Math.PI / 2 / (halfCount + 1);
+  const angle = effect === 'drum' ? Math.max(-Math.PI / 2, Math.min(Math.PI / 2, distance * step)) : 0;
+  const radius = geometry.itemHeight / step;
+  const translateY = effect === 'drum' ? distance * geometry.itemHeight - radius * Math.sin(angle) : 0;
+
+  return { opacity, scale, rotateX: `${(angle * 180) / Math.PI}deg`, translateY };
+};
+
+interface WheelItemProps {
+  position: number;
+  label: string;
+  disabled: boolean;
+  onPress: (position: number) => void;
+  scrollY: Animated.Value;
+  effect: WheelEffect;
+  geometry: WheelGeometry;
+  theme: DatePickerTheme;
+  textStyle?: StyleProp<TextStyle>;
+  /** renderItem 返回的自定义内容，不传时显示 label */
+  content?: React.ReactNode;
+  testID?: string;
+}
+
+// 单个选项，只在自身的文本或禁用状态变化时重新渲染；透明度和变换由滚动值在 UI 线程上插值
+const WheelItem = memo(function WheelItem({
+  position,
+  label,
+  disabled,
+  onPress,
+  scrollY,
+  effect,
+  geometry,
+  theme,
+  textStyle,
+  content,
+  testID,
+}: WheelItemProps) {
+  const animatedStyle = useMemo(() => {
+    if (effect === 'flat') return undefined;
+
+    // 滚动到第 position + distance 项时，本项在中心以上 distance 项
+    const reach = Math.max(3, (geometry.visibleItemCount - 1) / 2 + 1);
+    const distances = Array.from({ length: reach * 2 + 1 }, (_, i) => i - reach);
+    const inputRange = distances.map(distance => (position + distance) * geometry.itemHeight);
+    const values = distances.map(distance => getEffectValues(effect, distance, geometry, theme.fonts.itemSize));
+    const interpolate = (outputRange: number[] | string[]) => scrollY.interpolate({
+      inputRange,
+      outputRange,
+      extrapolate: 'clamp',
+    });
+
+    const transform = effect === 'drum'
+      ? [
+        { perspective: geometry.itemHeight * 20 },
+        { translateY: interpolate(values.map(value => value.translateY)) },
+        { rotateX: interpolate(values.map(value => value.rotateX)) },
+      ]
+      : [{ scale: interpolate(values.map(value => value.scale)) }];
+    return { opacity: interpolate(values.map(value => value.opacity)), transform };
+  }, [position, scrollY, effect, geometry, theme.fonts.itemSize]);
+
+  return (
+    <TouchableOpacity
+      testID={testID}
+      style={{ height: geometry.itemHeight }}
+      onPress={() => {
+        onPress(position);
+      }}
+      activeOpacity={0.7}
+      hitSlop={{ top: 10, bottom: 10, left: 20, right: 20 }}
+      delayPressIn={0}
+      delayPressOut={0}
+    >
+      <Animated.View style={[styles.pickerItem, animatedStyle]}>
+        {content ?? (
+          <Text
+            style={[
+              { color: theme.colors.itemText, fontFamily: theme.fonts.family },
+              textStyle,
+              disabled && [styles.disabledItemText, { color: theme.colors.disabledItemText }],
+              {
+                fontSize: theme.fonts.itemSize,
+                fontWeight: '500',
+              },
+            ]}
+          >
+            {label}
+          </Text>
+        )}
+      </Animated.View>
+    </TouchableOpacity>
+  );
+});
+
+// 根据滚动偏移量计算中心位置对应的索引；上方留白使第 n 项居中时偏移量正好是 n 个项高
+const getIndexFromOffset = (offsetY: number, itemHeight: number, count: number) => {
+  const newIndex = Math.round(offsetY / itemHeight);
+  return Math.max(0, Math.min(newIndex, count - 1));
+};
+
+export function WheelPicker<T>({
+  items,
+  selectedIndex,
+  onChange,
+  onScrollStateChange,
+  onSubmit,
+  keyExtractor,
+  renderLabel = (item: T) => String(item),
+  isItemDisabled,
+  selectionBackgroundColor,
+  theme: themeOverride,
+  loop = false,
+  effect = 'fade',
+  itemHeight: itemHeightProp,
+  visibleItemCount: visibleItemCountProp,
+  renderItem,
+  accessibilityLabel,
+  testID,
+  style,
+  textStyle,
+}: WheelPickerProps<T>): React.ReactElement {
+  const theme = useDatePickerTheme(themeOverride);
+  const geometry = useWheelGeometry(itemHeightProp, visibleItemCountProp);
+  const { itemHeight } = geometry;
+
+  // 开启“减弱动态效果”时，所有滚动都不使用动画
+  const reduceMotion = useReduceMotion();
+
+  // 循环时把列表重复多份；以下的“位置”指重复后的索引，不循环时与索引相同
+  const isLooping = loop && items.length > 1;
+  const copies = isLooping ? LOOP_COPIES : 1;
+  const positionCount = items.length * copies;
+
+  // 位置对应的项的索引
+  const toIndex = (position: number) => (isLooping ? mod(position, items.length) : position);
+
+  // 中间一份中某一项的位置
+  const toMiddlePosition = (index: number) => (isLooping ? Math.floor(LOOP_COPIES / 2) * items.length + index : index);
+
+  // 离 from 最近的一份中某一项的位置，循环时从最近的一份滚过去，如 12 月向下滚到 1 月
+  const toNearestPosition = (index: number, from: number) => {
+    if (!isLooping) return index;
+    const count = items.length;
+    const base = from - toIndex(from) + index;
+    return [base - count, base, base + count].reduce((nearest, position) => (
+      Math.abs(position - from) < Math.abs(nearest - from) ? position : nearest
+    ));
+  };
+
+  const scrollRef = useRef<FlatList<number> | null>(null);
+  // 选择状态机的当前状态，只在 dispatch 中修改
+  const engine = useRef(createWheelState(toMiddlePosition(selectedIndex)));
+  // 最近一次滚动事件的偏移量
+  const scrollOffset = useRef(engine.current.committed * itemHeight);
+  // 原生驱动的滚动偏移量，各项的透明度和变换由它插值得到，不经过 React 渲染
+  const scrollY = useRef(new Animated.Value(scrollOffset.current)).current;
+
+  // 屏幕中心的位置，只用于自定义内容的选中状态和屏幕阅读器读出的值，滚动时随时变化，不代表选中值
+  const [centerIndex, setCenterIndex] = useState(engine.current.committed);
+
+  const isDisabledIndex = (position: number) => {
+    const index = toIndex(position);
+    const item = items[index];
+    return item !== undefined && !!isItemDisabled?.(item, index);
+  };
+
+  // 最近的未禁用项，距离相同时优先后面的项；全部禁用时返回原位置
+  const findNearestEnabledIndex = (position: number) => {
+    for (let offset = 0; offset < positionCount; offset++) {
+      const candidate = [position + offset, position - offset].find(i => i >= 0 && i < positionCount && !isDisabledIndex(i));
+      if (candidate !== undefined) {
+        return candidate;
+      }
+    }
+    return position;
+  };
+
+  // 滚动到指定位置，中心位置立即更新
+  const scrollToIndex = (position: number, animated: boolean) => {
+    const clampedIndex = Math.max(0, Math.min(position, positionCount - 1));
+    setCenterIndex(clampedIndex);
+    scrollRef.current?.scrollToOffset({
+      offset: clampedIndex * itemHeight,
+      animated: animated && !reduceMotion,
+    });
+  };
+
+  // 把事件交给状态机，再执行它要求的滚动和提交
+  const dispatch = (event: WheelEvent) => {
+    const wasScrolling = engine.current.phase !== 'idle';
+    const transition: WheelTransition = wheelTransition(engine.current, event);
+    engine.current = transition.state;
+
+    let { scrollTo } = transition;
+    // 循环时停在其它份上，先无动画地跳到中间一份的同一处；内容相同，看不出跳动
+    if (isLooping && transition.state.phase === 'idle') {
+      const { committed } = transition.state;
+      const shift = toMiddlePosition(toIndex(committed)) - committed;
+      if (shift !== 0) {
+        const shiftedOffset = scrollOffset.current + shift * itemHeight;
+        scrollRef.current?.scrollToOffset({ offset: shiftedOffset, animated: false });
+        scrollOffset.current = shiftedOffset;
+        engine.current = { ...transition.state, committed: committed + shift };
+        scrollTo = {
+          position: (scrollTo?.position ?? committed) + shift,
+          animated: scrollTo?.animated ?? false,
+        };
+      }
+    }
+
+    if (scrollTo) {
+      scrollToIndex(scrollTo.position, scrollTo.animated);
+    }
+    if (transition.commit !== undefined) {
+      const index = toIndex(transition.commit);
+      const item = items[index];
+      if (item !== undefined) {
+        onChange?.(index, item);
+      }
+    }
+
+    const isScrolling = engine.current.phase !== 'idle';
+    if (isScrolling !== wasScrolling) {
+      onScrollStateChange?.(isScrolling);
+    }
+  };
+
+  // 偏移量对应的位置：取最近的未禁用项，并判断是否已经对齐
+  const resolveOffset = (offsetY: number) => {
+    const position = findNearestEnabledIndex(getIndexFromOffset(offsetY, itemHeight, positionCount));
+    return { position, aligned: Math.abs(offsetY - position * itemHeight) < 1 };
+  };
+
+  // 同步滚动位置：外部修改选中项或列表变化后，重新对齐到中心
+  const syncedLayout = useRef({ isLooping, count: items.length });
+  useEffect(() => {
+    const previousLayout = syncedLayout.current;
+    syncedLayout.current = { isLooping, count: items.length };
+    if (items.length === 0 || selectedIndex < 0) return;
+
+    const { committed } = engine.current;
+    // 循环列表的长度变化后（如 31 天变为 30 天），同一位置对应的项也变了，直接跳到中间一份的选中项
+    const isLayoutChanged = (isLooping || previousLayout.isLooping)
+      && (isLooping !== previousLayout.isLooping || items.length !== previousLayout.count);
+    if (isLayoutChanged) {
+      dispatch({ type: 'sync', position: toMiddlePosition(selectedIndex), animated: false });
+      return;
+    }
+
+    if (selectedIndex !== toIndex(committed)) {
+      dispatch({ type: 'sync', position: toNearestPosition(selectedIndex, committed), animated: true });
+    }
+  }, [selectedIndex, items, isLooping]);
+
+  // 列表完成布局后对齐到已提交的位置；iOS 已经通过 contentOffset 定位，这里保证 Android 也一致
+  const handleLayout = () => {
+    if (engine.current.phase === 'idle') {
+      scrollToIndex(engine.current.committed, false);
+    }
+  };
+
+  // 滚动中只更新中心位置的显示，不提交选中值
+  const handleScrollPosition = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const offsetY = event.nativeEvent.contentOffset.y;
+    scrollOffset.current = offsetY;
+    if (isWheelPending.current) {
+      isWheelPending.current = false;
+      if (engine.current.phase === 'idle') {
+        dispatch({ type: 'momentumBegin' });
+      }
+    }
+    const position = getIndexFromOffset(offsetY, itemHeight, positionCount);
+    if (position !== centerIndex) {
+      setCenterIndex(position);
+    }
+  };
+
+  // 滚动偏移量在 UI 线程上写入 scrollY，JS 线程同时收到事件更新中心位置
+  const handleScrollRef = useRef(handleScrollPosition);
+  handleScrollRef.current = handleScrollPosition;
+  const handleScroll = useMemo(() => Animated.event(
+    [{ nativeEvent: { contentOffset: { y: scrollY } } }],
+    { useNativeDriver: true, listener: (event: NativeSyntheticEvent<NativeScrollEvent>) => handleScrollRef.current(event) },
+  ), [scrollY]);
+
+  const dragStartOffset = useRef(0);
+  const handleScrollBeginDrag = () => {
+    dragStartOffset.current = scrollOffset.current;
+    dispatch({ type: 'dragBegin' });
+  };
+
+  // 松手：iOS 给出惯性滚动的目标位置，与当前位置相同时不会有惯性滚动；
+  // Android 松手后总会发出惯性滚动的开始和结束事件；web 上只要滚动过，停下时就会收到 scrollend；
+  // 其它平台没有惯性滚动事件，直接停下
+  const handleScrollEndDrag = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const offsetY = event.nativeEvent.contentOffset.y;
+    scrollOffset.current = offsetY;
+    const targetOffset = (event.nativeEvent as NativeScrollEvent & { targetContentOffset?: { y: number } })
+      .targetContentOffset?.y;
+    const willMomentum = targetOffset !== undefined
+      ? Math.abs(targetOffset - offsetY) >= 1
+      : Platform.OS === 'android' || (isWeb && Math.abs(offsetY - dragStartOffset.current) >= 1);
+    dispatch({ type: 'dragEnd', ...resolveOffset(offsetY), willMomentum });
+  };
+
+  const handleMomentumScrollBegin = () => {
+    dispatch({ type: 'momentumBegin' });
+  };
+
+  // 惯性滚动结束（iOS 上也包括程序触发的滚动动画结束），停在禁用项上时移动到最近的未禁用项
+  const handleMomentumScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const offsetY = event.nativeEvent.contentOffset.y;
+    scrollOffset.current = offsetY;
+    dispatch({ type: 'momentumEnd', ...resolveOffset(offsetY) });
+  };
+
+  // web 上鼠标滚轮、触控板和滚动条没有拖动和惯性滚动事件：滚动鼠标滚轮后列表真的滚动了才视为开始惯性滚动
+  // （在两端滚动鼠标滚轮不会滚动，也不会有 scrollend），scrollend 时停下，没有对齐时由状态机滚到最近的项。
+  // 不支持 scrollend 的浏览器以最后一次滚动事件之后的延时代替，这是滚轮唯一用到定时器的地方
+  const isWheelPending = useRef(false);
+  useWebScrollEnd(
+    () => scrollRef.current?.getScrollableNode(),
+    () => {
+      isWheelPending.current = true;
+    },
+    () => dispatch({ type: 'momentumEnd', ...resolveOffset(scrollOffset.current) })
+  );
+
+  // 从 position 开始向 direction 方向找第一个未禁用的位置，超出范围时返回 undefined
+  const findEnabledFrom = (position: number, direction: 1 | -1) => {
+    let index = Math.max(0, Math.min(position, positionCount - 1));
+    while (index >= 0 && index < positionCount && isDisabledIndex(index)) {
+      index += direction;
+    }
+    return index >= 0 && index < positionCount ? index : undefined;
+  };
+
+  // 向前或向后移动 step 项，跳过禁用项；step 超出范围时停在两端
+  const selectByStep = (step: number) => {
+    const { committed } = engine.current;
+    const direction = step > 0 ? 1 : -1;
+    const index = findEnabledFrom(committed + step, direction) ?? findEnabledFrom(committed + step, -direction as 1 | -1);
+    if (index !== undefined && index !== committed) {
+      dispatch({ type: 'select', position: index });
+    }
+  };
+
+  // 屏幕阅读器的上下滑动：选中后一项或前一项，跳过禁用项
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    const { actionName } = event.nativeEvent;
+    if (actionName !== 'increment' && actionName !== 'decrement') return;
+    const step = actionName === 'increment' ? 1 : -1;
+    const index = findEnabledFrom(engine.current.committed + step, step);
+    if (index === undefined || index === engine.current.committed) return;
+
+    dispatch({ type: 'select', position: index });
+  };
+
+  // 键盘：上下键移动一项，PageUp/PageDown 移动一屏，Home/End 到第一项和最后一项，输入文字跳到以它开头的项，Enter 提交
+  const findTypeahead = useTypeahead();
+  const handleKeyDown = (event: WebKeyboardEvent) => {
+    const { key } = event.nativeEvent;
+    const pageSize = geometry.visibleItemCount;
+    switch (key) {
+      case 'ArrowUp':
+        selectByStep(-1);
+        break;
+      case 'ArrowDown':
+        selectByStep(1);
+        break;
+      case 'PageUp':
+        selectByStep(-pageSize);
+        break;
+      case 'PageDown':
+        selectByStep(pageSize);
+        break;
+      case 'Home':
+      case 'End': {
+        const edge = key === 'Home' ? findEnabledFrom(toMiddlePosition(0), 1) : findEnabledFrom(toMiddlePosition(items.length - 1), -1);
+        if (edge !== undefined && edge !== engine.current.committed) {
+          dispatch({ type: 'select', position: edge });
+        }
+        break;
+      }
+      case 'Enter':
+        onSubmit?.();
+        break;
+      default: {
+        if (!isTypeaheadKey(event)) return;
+        const labels = items.map((item, index) => renderLabel(item, index));
+        const index = findTypeahead(event, labels, i => !!isItemDisabled?.(items[i], i));
+        if (index !== undefined) {
+          const position = toNearestPosition(index, engine.current.committed);
+          if (position !== engine.current.committed) {
+            dispatch({ type: 'select', position });
+          }
+        }
+      }
+    }
+    // 阻止浏览器滚动页面或滚动列表本身
+    event.preventDefault();
+  };
+
+  const centerItem = items[toIndex(centerIndex)];
+  const centerLabel = centerItem !== undefined ? renderLabel(centerItem, toIndex(centerIndex)) : undefined;
+
+  // 处理点击：立即提交并滚到中心
+  const handleItemPress = (position: number) => {
+    const clampedIndex = Math.max(0, Math.min(position, positionCount - 1));
+    if (isDisabledIndex(clampedIndex)) return;
+    dispatch({ type: 'select', position: clampedIndex });
+  };
+
+  // 列表的数据只是位置，文本等在渲染时按位置取得
+  const positions = useMemo(() => Array.from({ length: positionCount }, (_, position) => position), [positionCount]);
+
+  const getPositionKey = (position: number) => {
+    const index = toIndex(position);
+    const item = items[index];
+    const itemKey = keyExtractor ? keyExtractor(item, index) : `${renderLabel(item, index)}-${index}`;
+    const copy = Math.floor(position / items.length);
+    return copy === 0 ? itemKey : `${itemKey}-${copy}`;
+  };
+
+  // 各项的 testID，循环时只有中间一份带 testID，保证不重复
+  const getItemTestID = (position: number) => {
+    if (testID === undefined || position !== toMiddlePosition(toIndex(position))) return undefined;
+    const index = toIndex(position);
+    return `${testID}-item-${keyExtractor ? keyExtractor(items[index], index) : index}`;
+  };
+
+  // 传给各项的点击回调保持不变，避免所有项因为新的函数重新渲染
+  const handleItemPressRef = useRef(handleItemPress);
+  handleItemPressRef.current = handleItemPress;
+  const pressItem = useCallback((position: number) => handleItemPressRef.current(position), []);
+
+  // 首次渲染时最上方可见的项；FlatList 只在挂载时使用，之后列表变短时仍限制在范围内，避免无效值的警告
+  const initialTopPosition = useRef(Math.max(0, engine.current.committed - (geometry.visibleItemCount - 1) / 2)).current;
+  const initialScrollIndex = Math.max(0, Math.min(initialTopPosition, positionCount - 1));
+
+  // 每项的高度与项高一致，上方留白使第一项可以滚到中心
+  const getItemLayout = useCallback((_: ArrayLike<number> | null | undefined, position: number) => ({
+    length: itemHeight,
+    offset: geometry.padding + itemHeight * position,
+    index: position,
+  }), [geometry]);
+
+  const renderPosition: ListRenderItem<number> = ({ item: position }) => {
+    const index = toIndex(position);
+    const item = items[index];
+    const label = renderLabel(item, index);
+    const selected = position === centerIndex;
+    const disabled = !!isItemDisabled?.(item, index);
+    return (
+      <WheelItem
+        position={position}
+        label={label}
+        disabled={disabled}
+        onPress={pressItem}
+        scrollY={scrollY}
+        effect={effect}
+        geometry={geometry}
+        theme={theme}
+        textStyle={textStyle}
+        content={renderItem?.({ item, index, label, selected, disabled })}
+        testID={getItemTestID(position)}
+      />
+    );
+  };
+
+  // 整列作为屏幕阅读器中的一个可调节元素，上下滑动切换选中项，各项本身不单独聚焦
+  return (
+    <View
+      testID={testID}
+      style={[styles.container, { height: geometry.height }, style]}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityValue={centerLabel !== undefined ? { text: centerLabel } : undefined}
+      accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+      onAccessibilityAction={handleAccessibilityAction}
+      focusable
+      {...webKeyboardProps(handleKeyDown)}
+    >
+      {/* 中间选中指示器 */}
+      {selectionBackgroundColor !== undefined && (
+        <View
+          style={[
+            styles.selectedIndicator,
+            { top: geometry.padding, height: itemHeight },
+            { backgroundColor: selectionBackgroundColor, borderRadius: theme.radius.selection },
+          ]}
+        />
+      )}
+
+      {/* 只渲染中心附近的项，首次渲染就从选中项所在的位置开始，快速滑动时每批补充少量项 */}
+      <Animated.FlatList
+        ref={scrollRef}
+        data={positions}
+        keyExtractor={getPositionKey}
+        renderItem={renderPosition}
+        getItemLayout={getItemLayout}
+        extraData={centerIndex}
+        initialScrollIndex={initialScrollIndex}
+        initialNumToRender={geometry.visibleItemCount * 2}
+        maxToRenderPerBatch={geometry.visibleItemCount * 2}
+        windowSize={VIRTUAL_WINDOW_SIZE}
+        contentOffset={{ x: 0, y: engine.current.committed * itemHeight }}
+        onLayout={handleLayout}
+        onScroll={handleScroll}
+        onScrollBeginDrag={handleScrollBeginDrag}
+        onScrollEndDrag={handleScrollEndDrag}
+        onMomentumScrollBegin={handleMomentumScrollBegin}
+        onMomentumScrollEnd={handleMomentumScrollEnd}
+        scrollEventThrottle={16}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={<View style={{ height: geometry.padding }} />}
+        ListFooterComponent={<View style={{ height: geometry.padding }} />}
+        snapToInterval={itemHeight}
+        decelerationRate="fast"
+        scrollEnabled={true}
+        nestedScrollEnabled={true}
+        keyboardShouldPersistTaps="handled"
+        importantForAccessibility="no-hide-descendants"
+        accessibilityElementsHidden
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  selectedIndicator: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
+  pickerItem: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledItemText: {
+    textDecorationLine: 'line-through',
+  },
+});
@@ -0,0 +1,254 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { DatePicker } from '../DatePicker';
+import { selectDate, selectRange, selectRangeTab, getDisplayedDate, getColumnItems, getColumnValue } from '../testing';
+
+// 固定“今天”，maxDate 默认限制到今天
+const TODAY = new Date(2026, 9, 19, 10, 30);
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: TODAY });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('DatePicker', () => {
+  it('shows the initial date and reports it through onChange', () => {
+    const onChange = jest.fn();
+    const screen = render(<DatePicker initialDate="2020-05-17" valueFormat="string" onChange={onChange} />);
+
+    expect(getDisplayedDate(screen)).toEqual(new Date(2020, 4, 17));
+    expect(onChange).toHaveBeenLastCalledWith('2020-05-17', { year: 2020, month: 5, day: 17 });
+  });
+
+  it('selects a date column by column', () => {
+    const onChange = jest.fn();
+    const screen = render(<DatePicker initialDate="2020-05-17" valueFormat="string" onChange={onChange} />);
+
+    selectDate(screen, '2019-11-03');
+
+    expect(getDisplayedDate(screen)).toEqual(new Date(2019, 10, 3));
+    expect(onChange).toHaveBeenLastCalledWith('2019-11-03', { year: 2019, month: 11, day: 3 });
+  });
+
+  it('caps maxDate at today unless future dates are allowed', () => {
+    const screen = render(<DatePicker initialDate="2030-01-01" />);
+    expect(getDisplayedDate(screen)).toEqual(new Date(2026, 9, 19));
+    expect(() => selectDate(screen, '2026-10-20')).toThrow('day 20 is not selectable');
+
+    const future = render(<DatePicker testID="future" allowFutureDates maxDate="2030-12-31" initialDate="2030-01-01" />);
+    expect(getDisplayedDate(future, { testID: 'future' })).toEqual(new Date(2030, 0, 1));
+  });
+
+  it('renders the items around the selection first', () => {
+    const screen = render(<DatePicker minDate="1800-01-01" initialDate="2020-05-17" />);
+
+    expect(screen.getByTestId('date-picker-column-year-item-2020', { includeHiddenElements: true })).toBeTruthy();
+    expect(screen.queryByTestId('date-picker-column-year-item-1800', { includeHiddenElements: true })).toBeNull();
+  });
+
+  it('clamps the initial date into minDate and maxDate', () => {
+    const screen = render(<DatePicker minDate="2010-03-15" maxDate="2012-08-20" initialDate="2001-01-01" />);
+    expect(getDisplayedDate(screen)).toEqual(new Date(2010, 2, 15));
+    expect(getColumnItems(screen, 'year')).toEqual([2010, 2011, 2012]);
+    expect(getColumnItems(screen, 'month')).toEqual([3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it('skips disabled dates', () => {
+    const isDateDisabled = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+    const screen = render(<DatePicker initialDate="2024-06-08" isDateDisabled={isDateDisabled} />);
+
+    // 2024-06-08 是周六，初始值移到最近的工作日，即前一天的周五
+    expect(getDisplayedDate(screen)).toEqual(new Date(2024, 5, 7));
+    expect(() => selectDate(screen, '2024-06-09')).toThrow('day 9 is not selectable');
+  });
+
+  it('moves to the nearest enabled day when the month changes', () => {
+    const isDateDisabled = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+    const onDisabledChange = jest.fn();
+    const screen = render(
+      <DatePicker initialDate="2024-06-07" isDateDisabled={isDateDisabled} onDisabledChange={onDisabledChange} />
+    );
+
+    // 2024-07-07 是周日，移到最近的工作日，即后一天的周一
+    fireEvent(screen.getByTestId('date-picker-column-month'), 'accessibilityAction', { nativeEvent: { actionName: 'increment' } });
+
+    expect(getDisplayedDate(screen)).toEqual(new Date(2024, 6, 8));
+    expect(onDisabledChange).not.toHaveBeenCalledWith(true);
+  });
+
+  describe('leap years', () => {
+    it('offers February 29 only in leap years', () => {
+      const screen = render(<DatePicker initialDate="2024-02-10" />);
+      expect(getColumnItems(screen, 'day')).toHaveLength(29);
+
+      selectDate(screen, '2023-02-10');
+      expect(getColumnItems(screen, 'day')).toHaveLength(28);
+
+      // 2000 能被 400 整除，是闰年
+      selectDate(screen, '2000-02-29');
+      expect(getDisplayedDate(screen)).toEqual(new Date(2000, 1, 29));
+    });
+
+    it('moves February 29 to the 28th when switching to a common year', () => {
+      const onChange = jest.fn();
+      const screen = render(<DatePicker initialDate="2024-02-29" valueFormat="string" onChange={onChange} />);
+
+      selectDate(screen, '2023-02-28');
+
+      // 只改变了年份，日期随之限制到当月最后一天，月、日列不需要再滚动
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(onChange).toHaveBeenLastCalledWith('2023-02-28', { year: 2023, month: 2, day: 28 });
+    });
+
+    it('keeps February 29 in month-day precision', () => {
+      const screen = render(<DatePicker precision="month-day" initialDate="2023-02-28" />);
+      expect(getColumnValue(screen, 'year')).toBeUndefined();
+
+      selectDate(screen, '2000-02-29');
+      expect(getDisplayedDate(screen)).toEqual(new Date(2000, 1, 29));
+    });
+  });
+
+  describe('range selection', () => {
+    it('reports the selected start and end dates', () => {
+      const onChange = jest.fn();
+      const screen = render(<DatePicker range initialDate="2024-03-01" valueFormat="string" onChange={onChange} />);
+
+      selectRange(screen, { start: '2024-03-05', end: '2024-03-12' });
+
+      expect(onChange).toHaveBeenLastCalledWith(
+        { start: '2024-03-05', end: '2024-03-12' },
+        { start: { year: 2024, month: 3, day: 5 }, end: { year: 2024, month: 3, day: 12 } }
+      );
+    });
+
+    it('does not allow an end date before the start date', () => {
+      const screen = render(<DatePicker range initialDate="2024-03-10" />);
+
+      selectRangeTab(screen, 'end');
+      expect(getColumnItems(screen, 'day')[0]).toBe(10);
+      expect(() => selectDate(screen, '2024-03-09')).toThrow('day 9 is not selectable');
+    });
+
+    it('clamps the end date when the start date moves past it', () => {
+      const onChange = jest.fn();
+      const screen = render(<DatePicker range initialDate="2024-03-01" valueFormat="string" onChange={onChange} />);
+
+      selectRange(screen, { start: '2024-03-05', end: '2024-03-12' });
+      selectRangeTab(screen, 'start');
+      selectDate(screen, '2024-03-20');
+
+      expect(onChange).toHaveBeenLastCalledWith(
+        { start: '2024-03-20', end: '2024-03-20' },
+        { start: { year: 2024, month: 3, day: 20 }, end: { year: 2024, month: 3, day: 20 } }
+      );
+    });
+
+    it('limits the end date to maxRangeDays across a leap day', () => {
+      const onChange = jest.fn();
+      const screen = render(
+        <DatePicker range maxRangeDays={7} initialDate="2024-02-25" valueFormat="string" onChange={onChange} />
+      );
+
+      selectRangeTab(screen, 'end');
+      expect(() => selectDate(screen, '2024-03-04')).toThrow('day 4 is not selectable');
+
+      // 2 月 25 日之后第 7 天是 3 月 3 日，中间包括 2 月 29 日
+      selectDate(screen, '2024-03-03');
+      expect(onChange).toHaveBeenLastCalledWith(
+        { start: '2024-02-25', end: '2024-03-03' },
+        { start: { year: 2024, month: 2, day: 25 }, end: { year: 2024, month: 3, day: 3 } }
+      );
+    });
+  });
+
+  describe('age bounds', () => {
+    it('limits birth dates to minAge and maxAge', () => {
+      const screen = render(<DatePicker minAge={18} maxAge={65} />);
+
+      // 默认定位到今天，被限制到满 18 周岁的最晚出生日期
+      expect(getDisplayedDate(screen)).toEqual(new Date(2008, 9, 19));
+      expect(getColumnItems(screen, 'year')[0]).toBe(1960);
+      expect(() => selectDate(screen, '1960-10-19')).toThrow('day 19 is not selectable');
+      expect(() => selectDate(screen, '2008-10-20')).toThrow('day 20 is not selectable');
+    });
+
+    it('opens at initialAge and reports the age', () => {
+      const onChange = jest.fn();
+      const screen = render(<DatePicker maxAge={40} initialAge={25} valueFormat="string" onChange={onChange} />);
+
+      expect(onChange).toHaveBeenLastCalledWith('2001-10-19', { year: 2001, month: 10, day: 19, age: 25 });
+
+      selectDate(screen, '2001-10-20');
+      expect(onChange).toHaveBeenLastCalledWith('2001-10-20', { year: 2001, month: 10, day: 20, age: 24 });
+    });
+
+    it('handles February 29 relative to referenceDate', () => {
+      const onChange = jest.fn();
+      const screen = render(<DatePicker minAge={18} referenceDate="2026-02-28" onChange={onChange} />);
+
+      // 2008-02-29 出生的人到 2026-03-01 才满 18 周岁
+      expect(() => selectDate(screen, '2008-02-29')).toThrow('day 29 is not selectable');
+      selectDate(screen, '2008-02-28');
+      expect(onChange).toHaveBeenLastCalledWith(new Date(2008, 1, 28), { year: 2008, month: 2, day: 28, age: 18 });
+    });
+
+    it('keeps the tighter of minDate and the age bounds', () => {
+      const screen = render(<DatePicker minAge={18} minDate="1990-01-01" maxDate="2020-01-01" />);
+
+      expect(getColumnItems(screen, 'year')[0]).toBe(1990);
+      expect(getDisplayedDate(screen)).toEqual(new Date(2008, 9, 19));
+    });
+  });
+
+  describe('time zones', () => {
+    // 设备上是 10 月 19 日深夜，UTC+14 的 Kiritimati 已经是 10 月 20 日
+    const LATE_EVENING = new Date(2026, 9, 19, 23, 30);
+    const timeZone = 'Pacific/Kiritimati';
+
+    it('caps maxDate at today in timeZone', () => {
+      jest.setSystemTime(LATE_EVENING);
+      const onChange = jest.fn();
+      const screen = render(<DatePicker timeZone={timeZone} valueFormat="string" onChange={onChange} />);
+
+      expect(onChange).toHaveBeenLastCalledWith('2026-10-20', { year: 2026, month: 10, day: 20 });
+      expect(() => selectDate(screen, '2026-10-21')).toThrow('day 21 is not selectable');
+    });
+
+    it('marks today in timeZone in the calendar view', () => {
+      jest.setSystemTime(LATE_EVENING);
+      const screen = render(<DatePicker display="calendar" timeZone={timeZone} initialDate="2026-10-01" />);
+
+      expect(screen.getByText('20').props.style).toContainEqual(expect.objectContaining({ fontWeight: '600' }));
+      expect(screen.getByText('19').props.style).not.toContainEqual(expect.objectContaining({ fontWeight: '600' }));
+    });
+
+    it('enables the today preset in timeZone', () => {
+      jest.setSystemTime(LATE_EVENING);
+      const onChange = jest.fn();
+      const screen = render(
+        <DatePicker presets timeZone={timeZone} initialDate="2026-10-01" valueFormat="string" onChange={onChange} />
+      );
+
+      const todayPreset = screen.getByTestId('date-picker-preset-0');
+      expect(todayPreset.props.accessibilityState).toEqual(expect.objectContaining({ disabled: false }));
+
+      fireEvent.press(todayPreset);
+      expect(onChange).toHaveBeenLastCalledWith('2026-10-20', { year: 2026, month: 10, day: 20 });
+    });
+  });
+
+  describe('time', () => {
+    it('selects hours and minutes in 12-hour mode', () => {
+      const screen = render(<DatePicker mode="datetime" is24Hour={false} initialDate="2024-06-01T09:15" />);
+
+      selectDate(screen, '2024-06-02T21:40');
+
+      expect(getColumnValue(screen, 'meridiem')).toBe(1);
+      expect(getDisplayedDate(screen)).toEqual(new Date(2024, 5, 2, 21, 40));
+    });
+  });
+});
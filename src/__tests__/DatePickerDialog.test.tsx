@@ -0,0 +1,122 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { DatePickerDialog } from '../DatePickerDialog';
+import { registerLocale } from '../i18n';
+import { selectDate, selectRange, pressConfirm, pressCancel, getDisplayedDate } from '../testing';
+
+const TODAY = new Date(2026, 9, 19, 10, 30);
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: TODAY });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('DatePickerDialog', () => {
+  it('exposes stable testIDs for the toolbar, columns and items', () => {
+    const screen = render(<DatePickerDialog visible initialDate="2024-02-29" />);
+
+    expect(screen.getByTestId('date-picker-cancel')).toBeTruthy();
+    expect(screen.getByTestId('date-picker-confirm')).toBeTruthy();
+    expect(screen.getByTestId('date-picker-column-year')).toBeTruthy();
+    // 滚轮的各项对屏幕阅读器隐藏，只渲染中心附近的项
+    expect(screen.getByTestId('date-picker-column-month-item-2', { includeHiddenElements: true })).toBeTruthy();
+    expect(screen.getByTestId('date-picker-column-day-item-29', { includeHiddenElements: true })).toBeTruthy();
+  });
+
+  it('prefixes the testIDs with the testID prop', () => {
+    const screen = render(<DatePickerDialog visible testID="birthday" initialDate="2024-02-29" />);
+
+    expect(screen.getByTestId('birthday-confirm')).toBeTruthy();
+    expect(getDisplayedDate(screen, { testID: 'birthday' })).toEqual(new Date(2024, 1, 29));
+  });
+
+  it('confirms the selected date', () => {
+    const onConfirm = jest.fn();
+    const onDismiss = jest.fn();
+    const screen = render(
+      <DatePickerDialog visible initialDate="2024-02-29" valueFormat="string" onConfirm={onConfirm} onDismiss={onDismiss} />
+    );
+
+    selectDate(screen, '2020-02-29');
+    pressConfirm(screen);
+
+    expect(onConfirm).toHaveBeenCalledWith('2020-02-29', { year: 2020, month: 2, day: 29 });
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+
+  it('confirms a range', () => {
+    const onConfirm = jest.fn();
+    const screen = render(<DatePickerDialog visible range initialDate="2024-01-01" valueFormat="string" onConfirm={onConfirm} />);
+
+    selectRange(screen, { start: '2023-12-30', end: '2024-01-02' });
+    pressConfirm(screen);
+
+    expect(onConfirm).toHaveBeenCalledWith(
+      { start: '2023-12-30', end: '2024-01-02' },
+      { start: { year: 2023, month: 12, day: 30 }, end: { year: 2024, month: 1, day: 2 } }
+    );
+  });
+
+  it('does not confirm while the selected date is disabled', () => {
+    const onConfirm = jest.fn();
+    const screen = render(
+      <DatePickerDialog
+        visible
+        range
+        initialRange={{ start: '2024-06-10', end: '2024-06-15' }}
+        isDateDisabled={date => date.getDate() === 15}
+        onConfirm={onConfirm}
+      />
+    );
+
+    // 保存的结束日期被禁用，确认按钮不可点击
+    expect(() => pressConfirm(screen)).toThrow('the confirm button is disabled');
+    expect(onConfirm).not.toHaveBeenCalled();
+
+    selectRange(screen, { start: '2024-06-10', end: '2024-06-14' });
+    pressConfirm(screen);
+    expect(onConfirm).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels without confirming', () => {
+    const onConfirm = jest.fn();
+    const onCancel = jest.fn();
+    const screen = render(<DatePickerDialog visible onConfirm={onConfirm} onCancel={onCancel} />);
+
+    pressCancel(screen);
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(onConfirm).not.toHaveBeenCalled();
+  });
+
+  it('confirms after reopening a dialog that was cancelled mid-drag', () => {
+    const onConfirm = jest.fn();
+    const dialog = (visible: boolean) => (
+      <DatePickerDialog visible={visible} initialDate="2024-02-29" valueFormat="string" onConfirm={onConfirm} />
+    );
+    const screen = render(dialog(true));
+
+    const [list] = screen.getByTestId('date-picker-column-year').findAll(node => !!node.props.onScrollBeginDrag);
+    fireEvent(list, 'scrollBeginDrag', { nativeEvent: { contentOffset: { x: 0, y: 0 } } });
+    pressCancel(screen);
+
+    screen.rerender(dialog(false));
+    screen.rerender(dialog(true));
+    pressConfirm(screen);
+
+    expect(onConfirm).toHaveBeenCalledWith('2024-02-29', { year: 2024, month: 2, day: 29 });
+  });
+
+  it('picks up a locale registered after mounting', () => {
+    const screen = render(<DatePickerDialog visible locale="it-IT" />);
+    expect(screen.getByText('Confirm')).toBeTruthy();
+
+    registerLocale('it-IT', { confirm: 'Conferma' });
+    screen.rerender(<DatePickerDialog visible locale="it-IT" />);
+
+    expect(screen.getByText('Conferma')).toBeTruthy();
+  });
+});
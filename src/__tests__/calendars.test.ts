@@ -0,0 +1,59 @@
+import { chineseLunarCalendar } from '../calendars';
+
+const date = (year: number, month: number, day: number) => new Date(year, month - 1, day);
+
+describe('chineseLunarCalendar', () => {
+  it('starts on the lunar new year of 1900', () => {
+    expect(chineseLunarCalendar.minDate).toEqual(date(1900, 1, 31));
+    expect(chineseLunarCalendar.fromDate(date(1900, 1, 31))).toEqual({ year: 1900, month: 1, day: 1 });
+    expect(chineseLunarCalendar.toDate(1900, 1, 1)).toEqual(date(1900, 1, 31));
+  });
+
+  it('ends on the last day of the lunar year 2100', () => {
+    expect(chineseLunarCalendar.maxDate).toEqual(date(2101, 1, 28));
+    expect(chineseLunarCalendar.fromDate(date(2101, 1, 28))).toEqual({ year: 2100, month: 12, day: 29 });
+    expect(chineseLunarCalendar.toDate(2100, 1, 1)).toEqual(date(2100, 2, 9));
+    expect(chineseLunarCalendar.getMonthCount(2100)).toBe(12);
+  });
+
+  it('places a leap month after the month it repeats', () => {
+    // 2020 年闰四月：5 月 23 日至 6 月 20 日，在月份列表中是第 5 个月
+    expect(chineseLunarCalendar.getMonthCount(2020)).toBe(13);
+    expect(chineseLunarCalendar.fromDate(date(2020, 5, 22))).toEqual({ year: 2020, month: 4, day: 30 });
+    expect(chineseLunarCalendar.fromDate(date(2020, 5, 23))).toEqual({ year: 2020, month: 5, day: 1 });
+    expect(chineseLunarCalendar.getDaysInMonth(2020, 5)).toBe(29);
+    expect(chineseLunarCalendar.toDate(2020, 6, 1)).toEqual(date(2020, 6, 21));
+
+    expect(chineseLunarCalendar.getFields(date(2020, 6, 20))).toEqual({
+      calendar: 'chinese', year: 2020, month: 4, day: 29, isLeapMonth: true,
+    });
+    expect(chineseLunarCalendar.getFields(date(2020, 6, 21))).toEqual({
+      calendar: 'chinese', year: 2020, month: 5, day: 1, isLeapMonth: false,
+    });
+  });
+
+  it('handles leap months near the edges and in recent years', () => {
+    // 1900 年闰八月
+    expect(chineseLunarCalendar.getFields(date(1900, 10, 22))).toEqual({
+      calendar: 'chinese', year: 1900, month: 8, day: 29, isLeapMonth: true,
+    });
+    expect(chineseLunarCalendar.fromDate(date(1900, 10, 23))).toEqual({ year: 1900, month: 10, day: 1 });
+
+    // 2023 年闰二月
+    expect(chineseLunarCalendar.getFields(date(2023, 3, 22))).toEqual({
+      calendar: 'chinese', year: 2023, month: 2, day: 1, isLeapMonth: true,
+    });
+    expect(chineseLunarCalendar.fromDate(date(2023, 4, 20))).toEqual({ year: 2023, month: 4, day: 1 });
+    expect(chineseLunarCalendar.formatMonth?.(2023, 3, { locale: 'zh-CN' })).toBe('闰二月');
+    expect(chineseLunarCalendar.formatMonth?.(2023, 3, { locale: 'en-US' })).toBe('Leap 2');
+  });
+
+  it('converts back and forth across the whole range', () => {
+    const minDate = chineseLunarCalendar.minDate!;
+    const maxDate = chineseLunarCalendar.maxDate!;
+    for (let day = date(minDate.getFullYear(), minDate.getMonth() + 1, minDate.getDate()); day <= maxDate; day.setDate(day.getDate() + 97)) {
+      const { year, month, day: lunarDay } = chineseLunarCalendar.fromDate(day);
+      expect(chineseLunarCalendar.toDate(year, month, lunarDay)).toEqual(day);
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { chineseLunarCalendar } from '../calendars';
+import {
+  DEFAULT_COLUMN_CONFIG,
+  buildDayList,
+  clampDateParts,
+  resolveDateBounds,
+  subtractYears,
+  getAge,
+  getAgeBounds,
+} from '../dateUtils';
+
+const date = (year: number, month: number, day: number) => new Date(year, month - 1, day);
+const parts = (year: number, month: number, day: number) => ({ year, month, day, hour: 0, minute: 0 });
+const wideBounds = { minDate: date(1900, 1, 1), maxDate: date(2100, 12, 31) };
+
+describe('buildDayList', () => {
+  it('has February 29 only in leap years', () => {
+    expect(buildDayList(2024, 2, wideBounds)).toHaveLength(29);
+    expect(buildDayList(2023, 2, wideBounds)).toHaveLength(28);
+    // 能被 400 整除的是闰年，其余整百年不是
+    expect(buildDayList(2000, 2, wideBounds)).toHaveLength(29);
+    expect(buildDayList(1900, 2, wideBounds)).toHaveLength(28);
+    expect(buildDayList(2100, 2, wideBounds)).toHaveLength(28);
+  });
+
+  it('trims the first and last month to the bounds', () => {
+    const bounds = { minDate: date(2024, 2, 10), maxDate: date(2024, 3, 5) };
+    expect(buildDayList(2024, 2, bounds)).toEqual(Array.from({ length: 20 }, (_, i) => 10 + i));
+    expect(buildDayList(2024, 3, bounds)).toEqual([1, 2, 3, 4, 5]);
+    expect(buildDayList(2024, 1, bounds)).toEqual([]);
+  });
+
+  it('uses the month lengths of the calendar', () => {
+    // 农历 2020 年的第 5 个月是闰四月，29 天
+    expect(buildDayList(2020, 5, wideBounds, chineseLunarCalendar)).toHaveLength(29);
+    expect(buildDayList(2020, 4, wideBounds, chineseLunarCalendar)).toHaveLength(30);
+  });
+});
+
+describe('clampDateParts', () => {
+  it('moves February 29 to the 28th in common years', () => {
+    expect(clampDateParts(parts(2023, 2, 29), wideBounds)).toEqual(parts(2023, 2, 28));
+    expect(clampDateParts(parts(2024, 2, 29), wideBounds)).toEqual(parts(2024, 2, 29));
+    expect(clampDateParts(parts(1900, 2, 29), wideBounds)).toEqual(parts(1900, 2, 28));
+  });
+
+  it('keeps each column within the bounds', () => {
+    const bounds = { minDate: date(2024, 2, 10), maxDate: date(2024, 2, 29) };
+    expect(clampDateParts(parts(2024, 2, 1), bounds)).toEqual(parts(2024, 2, 10));
+    expect(clampDateParts(parts(2025, 3, 15), bounds)).toEqual(parts(2024, 2, 15));
+  });
+
+  it('keeps February 29 without a year column', () => {
+    const config = { ...DEFAULT_COLUMN_CONFIG, precision: 'month-day' as const };
+    const bounds = resolveDateBounds({ precision: 'month-day' });
+    expect(clampDateParts(parts(2000, 2, 29), bounds, config)).toEqual(parts(2000, 2, 29));
+  });
+});
+
+describe('subtractYears', () => {
+  it('keeps the month and day', () => {
+    expect(subtractYears(date(2026, 10, 19), 25)).toEqual(date(2001, 10, 19));
+    expect(subtractYears(date(2026, 10, 19), -1)).toEqual(date(2027, 10, 19));
+  });
+
+  it('moves February 29 to the 28th in common years', () => {
+    expect(subtractYears(date(2024, 2, 29), 1)).toEqual(date(2023, 2, 28));
+    expect(subtractYears(date(2024, 2, 29), 4)).toEqual(date(2020, 2, 29));
+    // 1900 不能被 400 整除，不是闰年
+    expect(subtractYears(date(2000, 2, 29), 100)).toEqual(date(1900, 2, 28));
+  });
+});
+
+describe('getAge', () => {
+  it('counts full years', () => {
+    expect(getAge(date(2000, 10, 19), date(2026, 10, 18))).toBe(25);
+    expect(getAge(date(2000, 10, 19), date(2026, 10, 19))).toBe(26);
+  });
+
+  it('ages February 29 birthdays on March 1 in common years', () => {
+    expect(getAge(date(2008, 2, 29), date(2026, 2, 28))).toBe(17);
+    expect(getAge(date(2008, 2, 29), date(2026, 3, 1))).toBe(18);
+    expect(getAge(date(2008, 2, 29), date(2028, 2, 29))).toBe(20);
+  });
+});
+
+describe('getAgeBounds', () => {
+  it('derives the birth date range from minAge and maxAge', () => {
+    expect(getAgeBounds({ minAge: 18, maxAge: 65, referenceDate: date(2026, 10, 19) })).toEqual({
+      minDate: date(1960, 10, 20),
+      maxDate: date(2008, 10, 19),
+    });
+    expect(getAgeBounds({ referenceDate: date(2026, 10, 19) })).toEqual({});
+  });
+
+  it('agrees with getAge around leap days', () => {
+    const references = [date(2024, 2, 28), date(2024, 2, 29), date(2024, 3, 1), date(2025, 2, 28), date(2025, 3, 1)];
+    references.forEach(referenceDate => {
+      const { minDate, maxDate } = getAgeBounds({ minAge: 18, maxAge: 20, referenceDate });
+      const dayBefore = (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1);
+      const dayAfter = (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+      expect(getAge(maxDate!, referenceDate)).toBe(18);
+      expect(getAge(dayAfter(maxDate!), referenceDate)).toBe(17);
+      expect(getAge(minDate!, referenceDate)).toBe(20);
+      expect(getAge(dayBefore(minDate!), referenceDate)).toBe(21);
+    });
+  });
+});
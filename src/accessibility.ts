@@ -0,0 +1,44 @@
+/**
+ * 无障碍 - 系统的“减弱动态效果”和屏幕阅读器状态
+ */
+import { useState, useEffect, useRef } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+type AccessibilityFlagEvent = 'reduceMotionChanged' | 'screenReaderChanged';
+
+// 读取初始值并订阅变化；卸载后不再更新
+function useAccessibilityFlag(query: () => Promise<boolean>, eventName: AccessibilityFlagEvent): boolean {
+  const [enabled, setEnabled] = useState(false);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  useEffect(() => {
+    let isMounted = true;
+    // 测试环境（react-native 的 jest 预设）中查询和订阅返回 undefined，按未开启处理
+    Promise.resolve(query?.())
+      .then(value => {
+        // 与当前值相同时不更新，测试中查询在 act 之外返回时不会产生警告
+        if (isMounted && typeof value === 'boolean' && value !== enabledRef.current) setEnabled(value);
+      })
+      .catch(() => {
+        // 部分平台（如 web）不支持查询，按未开启处理
+      });
+    const subscription = AccessibilityInfo.addEventListener(eventName, setEnabled);
+    return () => {
+      isMounted = false;
+      subscription?.remove();
+    };
+  }, [query, eventName]);
+
+  return enabled;
+}
+
+/** 系统是否开启了“减弱动态效果”，开启时滚轮不使用滚动动画 */
+export function useReduceMotion(): boolean {
+  return useAccessibilityFlag(AccessibilityInfo.isReduceMotionEnabled, 'reduceMotionChanged');
+}
+
+/** 是否正在使用 VoiceOver / TalkBack */
+export function useScreenReaderEnabled(): boolean {
+  return useAccessibilityFlag(AccessibilityInfo.isScreenReaderEnabled, 'screenReaderChanged');
+}
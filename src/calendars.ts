@@ -0,0 +1,299 @@
+/**
+ * 历法 - 提供年、月、日列表和显示文本，内置公历、农历以及按纪元显示年份的公历（佛历、日本年号）
+ */
+
+/**
+ * 历法中的年月日。month 是该年中的第几个月（从 1 开始），
+ * 有闰月的年份闰月也占一个位置，例如农历闰四月之后的五月是第 6 个月
+ */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** onConfirm 中返回的原历法字段 */
+export interface CalendarFields {
+  calendar: string;
+  /** 原历法的年份，例如佛历 2567、令和 6 */
+  year: number;
+  /** 原历法的月份（1-12），闰月与所闰的月份相同 */
+  month: number;
+  day: number;
+  isLeapMonth: boolean;
+  /** 纪元，例如 'reiwa'、'BE' */
+  era?: string;
+}
+
+/** 生成显示文本时可用的信息 */
+export interface CalendarLabelContext {
+  locale: string;
+  /** 当前选中的月份，年份标签需要按选中日期判断纪元时使用 */
+  month?: number;
+  /** 当前选中的日 */
+  day?: number;
+}
+
+export interface DatePickerCalendar {
+  id: string;
+  /** 支持的最早、最晚日期，可选范围会被限制在其中 */
+  minDate?: Date;
+  maxDate?: Date;
+  /** 公历日期转换为该历法的年月日 */
+  fromDate: (date: Date) => CalendarDate;
+  /** 该历法的年月日对应的公历日期（0:00） */
+  toDate: (year: number, month: number, day: number) => Date;
+  /** 某一年的月份数，农历闰年为 13 */
+  getMonthCount: (year: number) => number;
+  getDaysInMonth: (year: number, month: number) => number;
+  /** 公历日期对应的原历法字段 */
+  getFields: (date: Date) => CalendarFields;
+  /** 各列的显示文本，不提供时使用默认的数字加后缀 */
+  formatYear?: (year: number, context: CalendarLabelContext) => string;
+  formatMonth?: (year: number, month: number, context: CalendarLabelContext) => string;
+  formatDay?: (year: number, month: number, day: number, context: CalendarLabelContext) => string;
+}
+
+const isChineseLocale = (locale: string) => locale.split('-')[0].toLowerCase() === 'zh';
+const isJapaneseLocale = (locale: string) => locale.split('-')[0].toLowerCase() === 'ja';
+
+export const gregorianCalendar: DatePickerCalendar = {
+  id: 'gregory',
+  fromDate: date => ({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() }),
+  toDate: (year, month, day) => new Date(year, month - 1, day),
+  getMonthCount: () => 12,
+  getDaysInMonth: (year, month) => new Date(year, month, 0).getDate(),
+  getFields: date => ({
+    calendar: 'gregory',
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    isLeapMonth: false,
+  }),
+};
+
+// 农历 1900-2100 年的数据：
+// 第 0-3 位为闰月月份（0 表示没有闰月），第 4-15 位依次为十二月到正月是否为大月（30 天），
+// 第 16 位为闰月是否为大月
+const LUNAR_INFO = [
+  0x04bd8, 0x04ae0, 0x0a570, 0x054d5, 0x0d260, 0x0d950, 0x16554, 0x056a0, 0x09ad0, 0x055d2, // 1900-1909
+  0x04ae0, 0x0a5b6, 0x0a4d0, 0x0d250, 0x1d255, 0x0b540, 0x0d6a0, 0x18da3, 0x095b0, 0x14977, // 1910-1919
+  0x04970, 0x0a4b0, 0x1b0b6, 0x06a50, 0x06d40, 0x1ab54, 0x02b60, 0x09570, 0x052f2, 0x04970, // 1920-1929
+  0x06566, 0x0d4a0, 0x0ea50, 0x16a95, 0x05ad0, 0x02b60, 0x186e3, 0x092e0, 0x1c8d7, 0x0c950, // 1930-1939
+  0x0d4a0, 0x1d8a6, 0x0b550, 0x056a0, 0x1a5b4, 0x025d0, 0x092d0, 0x0d2b2, 0x0a950, 0x0b557, // 1940-1949
+  0x06ca0, 0x0b550, 0x15355, 0x04db0, 0x025b0, 0x18573, 0x052b0, 0x0a9a8, 0x0e950, 0x06aa0, // 1950-1959
+  0x0aea6, 0x0ab50, 0x04b60, 0x0aae4, 0x0a570, 0x05260, 0x0f263, 0x0d950, 0x05b57, 0x056a0, // 1960-1969
+  0x096d0, 0x04dd5, 0x04ad0, 0x0a4d0, 0x0d4d4, 0x0d250, 0x0d558, 0x0b540, 0x0b6a0, 0x195a6, // 1970-1979
+  0x095b0, 0x049b0, 0x0a974, 0x0a4b0, 0x0b27a, 0x06a50, 0x06d40, 0x1ad47, 0x0ab60, 0x09570, // 1980-1989
+  0x04af5, 0x04970, 0x064b0, 0x074a3, 0x0ea50, 0x06b58, 0x05ac0, 0x0ab60, 0x096e5, 0x092e0, // 1990-1999
+  0x0c960, 0x0d954, 0x0d4a0, 0x0da50, 0x07552, 0x056a0, 0x0abb7, 0x025d0, 0x092d0, 0x0cab5, // 2000-2009
+  0x0a950, 0x0b4a0, 0x0bca4, 0x0ad50, 0x055d9, 0x04ba0, 0x0a5b0, 0x15176, 0x05270, 0x0a930, // 2010-2019
+  0x07954, 0x06aa0, 0x0ad50, 0x05b52, 0x04b60, 0x0a6e6, 0x0a4f0, 0x05260, 0x0ea65, 0x0d520, // 2020-2029
+  0x0daa0, 0x076a3, 0x096d0, 0x04afb, 0x04ad0, 0x0a4d0, 0x1d0b6, 0x0d250, 0x0d520, 0x0dd45, // 2030-2039
+  0x0b5a0, 0x056d0, 0x055b2, 0x049b0, 0x0a577, 0x0a4b0, 0x0aa50, 0x1b255, 0x06d20, 0x0ada0, // 2040-2049
+  0x14b63, 0x09370, 0x049f8, 0x04970, 0x064b0, 0x168a6, 0x0ea50, 0x06b20, 0x1a6c4, 0x0aae0, // 2050-2059
+  0x092e0, 0x0d2e3, 0x0c960, 0x0d557, 0x0d4a0, 0x0da50, 0x05d55, 0x056a0, 0x0a6d0, 0x055d4, // 2060-2069
+  0x092d0, 0x0a9b8, 0x0a950, 0x0b4a0, 0x0b6a6, 0x0ad50, 0x055a0, 0x0aba4, 0x0a5b0, 0x052b0, // 2070-2079
+  0x0b273, 0x06930, 0x07337, 0x06aa0, 0x0ad50, 0x14b55, 0x04b60, 0x0a570, 0x054e4, 0x0d160, // 2080-2089
+  0x0e968, 0x0d520, 0x0daa0, 0x16aa6, 0x056d0, 0x04ae0, 0x0a9d4, 0x0a2d0, 0x0d150, 0x0f252, // 2090-2099
+  0x0d520, // 2100
+];
+
+const LUNAR_MIN_YEAR = 1900;
+const LUNAR_MAX_YEAR = LUNAR_MIN_YEAR + LUNAR_INFO.length - 1;
+// 农历 1900 年正月初一
+const LUNAR_BASE_DATE = new Date(1900, 0, 31);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LUNAR_MONTH_NAMES = ['正', '二', '三', '四', '五', '六', '七', '八', '九', '十', '冬', '腊'];
+const LUNAR_DAY_PREFIXES = ['初', '十', '廿', '三'];
+const CHINESE_DIGITS = ['十', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+const HEAVENLY_STEMS = ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'];
+const EARTHLY_BRANCHES = ['子', '丑', '寅', '卯', '辰', '巳', '午', '未', '申', '酉', '戌', '亥'];
+
+interface LunarMonth {
+  month: number;
+  isLeapMonth: boolean;
+  days: number;
+}
+
+const lunarMonthCache: Record<number, LunarMonth[]> = {};
+const lunarYearStartCache: Record<number, number> = {};
+
+const clampLunarYear = (year: number) => Math.max(LUNAR_MIN_YEAR, Math.min(year, LUNAR_MAX_YEAR));
+
+// 某一农历年的各个月份，闰月排在所闰的月份之后
+const getLunarMonths = (year: number): LunarMonth[] => {
+  const lunarYear = clampLunarYear(year);
+  if (!lunarMonthCache[lunarYear]) {
+    const info = LUNAR_INFO[lunarYear - LUNAR_MIN_YEAR];
+    const leapMonth = info & 0xf;
+    const months: LunarMonth[] = [];
+    for (let month = 1; month <= 12; month++) {
+      months.push({ month, isLeapMonth: false, days: info & (0x10000 >> month) ? 30 : 29 });
+      if (month === leapMonth) {
+        months.push({ month, isLeapMonth: true, days: info & 0x10000 ? 30 : 29 });
+      }
+    }
+    lunarMonthCache[lunarYear] = months;
+  }
+  return lunarMonthCache[lunarYear];
+};
+
+const getLunarYearDays = (year: number) => getLunarMonths(year).reduce((sum, month) => sum + month.days, 0);
+
+// 农历某年正月初一距离 1900 年正月初一的天数
+const getLunarYearStart = (year: number): number => {
+  const lunarYear = clampLunarYear(year);
+  if (lunarYearStartCache[lunarYear] === undefined) {
+    lunarYearStartCache[lunarYear] = lunarYear === LUNAR_MIN_YEAR
+      ? 0
+      : getLunarYearStart(lunarYear - 1) + getLunarYearDays(lunarYear - 1);
+  }
+  return lunarYearStartCache[lunarYear];
+};
+
+// 按本地日期计算天数差，不受夏令时影响
+const daysSinceLunarBase = (date: Date) => Math.round(
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) -
+    Date.UTC(LUNAR_BASE_DATE.getFullYear(), LUNAR_BASE_DATE.getMonth(), LUNAR_BASE_DATE.getDate())) / DAY_MS
+);
+
+const lunarFromDate = (date: Date): CalendarDate => {
+  const offset = daysSinceLunarBase(date);
+  let year = LUNAR_MIN_YEAR;
+  while (year < LUNAR_MAX_YEAR && getLunarYearStart(year + 1) <= offset) {
+    year++;
+  }
+  let remaining = Math.max(0, offset - getLunarYearStart(year));
+  const months = getLunarMonths(year);
+  for (let index = 0; index < months.length; index++) {
+    if (remaining < months[index].days || index === months.length - 1) {
+      return { year, month: index + 1, day: Math.min(remaining + 1, months[index].days) };
+    }
+    remaining -= months[index].days;
+  }
+  return { year, month: 1, day: 1 };
+};
+
+const lunarToDate = (year: number, month: number, day: number): Date => {
+  const months = getLunarMonths(year);
+  const monthIndex = Math.max(0, Math.min(month, months.length) - 1);
+  const offset = getLunarYearStart(year) +
+    months.slice(0, monthIndex).reduce((sum, item) => sum + item.days, 0) +
+    day - 1;
+  return new Date(LUNAR_BASE_DATE.getFullYear(), LUNAR_BASE_DATE.getMonth(), LUNAR_BASE_DATE.getDate() + offset);
+};
+
+const formatLunarDay = (day: number) => {
+  if (day === 10) return '初十';
+  if (day === 20) return '二十';
+  if (day === 30) return '三十';
+  return `${LUNAR_DAY_PREFIXES[Math.floor(day / 10)]}${CHINESE_DIGITS[day % 10]}`;
+};
+
+/** 农历年份的干支，例如 2024 年为甲辰 */
+export function getGanzhiYear(year: number): string {
+  const offset = year - 4;
+  return `${HEAVENLY_STEMS[((offset % 10) + 10) % 10]}${EARTHLY_BRANCHES[((offset % 12) + 12) % 12]}`;
+}
+
+/** 农历（1900-2100 年），月份列表包含闰月 */
+export const chineseLunarCalendar: DatePickerCalendar = {
+  id: 'chinese',
+  minDate: LUNAR_BASE_DATE,
+  maxDate: (() => {
+    const months = getLunarMonths(LUNAR_MAX_YEAR);
+    return lunarToDate(LUNAR_MAX_YEAR, months.length, months[months.length - 1].days);
+  })(),
+  fromDate: lunarFromDate,
+  toDate: lunarToDate,
+  getMonthCount: year => getLunarMonths(year).length,
+  getDaysInMonth: (year, month) => getLunarMonths(year)[month - 1]?.days ?? 30,
+  getFields: date => {
+    const { year, month, day } = lunarFromDate(date);
+    const lunarMonth = getLunarMonths(year)[month - 1];
+    return { calendar: 'chinese', year, month: lunarMonth.month, day, isLeapMonth: lunarMonth.isLeapMonth };
+  },
+  formatYear: (year, { locale }) => (isChineseLocale(locale) ? `${year}${getGanzhiYear(year)}年` : String(year)),
+  formatMonth: (year, month, { locale }) => {
+    const lunarMonth = getLunarMonths(year)[month - 1];
+    if (!lunarMonth) return String(month);
+    if (isChineseLocale(locale)) {
+      return `${lunarMonth.isLeapMonth ? '闰' : ''}${LUNAR_MONTH_NAMES[lunarMonth.month - 1]}月`;
+    }
+    return `${lunarMonth.isLeapMonth ? 'Leap ' : ''}${lunarMonth.month}`;
+  },
+  formatDay: (year, month, day, { locale }) => (isChineseLocale(locale) ? formatLunarDay(day) : String(day)),
+};
+
+/** 按纪元显示年份的公历，月、日与公历相同 */
+export interface EraCalendarOptions {
+  id: string;
+  /** 公历日期所在的纪元和纪元年份，不在任何纪元内时返回 undefined */
+  getEra: (date: Date) => { era: string; year: number } | undefined;
+  /** 年份的显示文本 */
+  formatEraYear: (era: string, eraYear: number, locale: string) => string;
+  minDate?: Date;
+  maxDate?: Date;
+}
+
+export function createEraCalendar(options: EraCalendarOptions): DatePickerCalendar {
+  const { id, getEra, formatEraYear, minDate, maxDate } = options;
+  return {
+    ...gregorianCalendar,
+    id,
+    minDate,
+    maxDate,
+    getFields: date => {
+      const era = getEra(date);
+      return {
+        ...gregorianCalendar.getFields(date),
+        calendar: id,
+        year: era ? era.year : date.getFullYear(),
+        era: era?.era,
+      };
+    },
+    // 年号可能在年中更替，按当前选中的月、日判断纪元
+    formatYear: (year, { locale, month = 12, day = 31 }) => {
+      const date = new Date(year, month - 1, Math.min(day, gregorianCalendar.getDaysInMonth(year, month)));
+      const era = getEra(date);
+      return era ? formatEraYear(era.era, era.year, locale) : String(year);
+    },
+  };
+}
+
+/** 佛历，年份为公历年份加 543 */
+export const buddhistCalendar = createEraCalendar({
+  id: 'buddhist',
+  getEra: date => ({ era: 'BE', year: date.getFullYear() + 543 }),
+  formatEraYear: (_, eraYear, locale) => (
+    locale.split('-')[0].toLowerCase() === 'th' ? `พ.ศ. ${eraYear}` : `${eraYear} BE`
+  ),
+});
+
+// 日本年号，start 为改元当天
+const JAPANESE_ERAS = [
+  { era: 'reiwa', name: '令和', romaji: 'Reiwa', start: new Date(2019, 4, 1) },
+  { era: 'heisei', name: '平成', romaji: 'Heisei', start: new Date(1989, 0, 8) },
+  { era: 'showa', name: '昭和', romaji: 'Shōwa', start: new Date(1926, 11, 25) },
+  { era: 'taisho', name: '大正', romaji: 'Taishō', start: new Date(1912, 6, 30) },
+  { era: 'meiji', name: '明治', romaji: 'Meiji', start: new Date(1868, 8, 8) },
+];
+
+/** 日本年号（明治以后），元年显示为“元年” */
+export const japaneseCalendar = createEraCalendar({
+  id: 'japanese',
+  getEra: date => {
+    const era = JAPANESE_ERAS.find(item => date >= item.start);
+    return era ? { era: era.era, year: date.getFullYear() - era.start.getFullYear() + 1 } : undefined;
+  },
+  formatEraYear: (eraId, eraYear, locale) => {
+    const era = JAPANESE_ERAS.find(item => item.era === eraId);
+    if (!era) return String(eraYear);
+    if (isJapaneseLocale(locale) || isChineseLocale(locale)) {
+      return `${era.name}${eraYear === 1 ? '元' : eraYear}年`;
+    }
+    return `${era.romaji} ${eraYear}`;
+  },
+});
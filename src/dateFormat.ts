@@ -0,0 +1,155 @@
+/**
+ * 日期值的格式 - 纯日历值（'YYYY-MM-DD' 字符串或年月日对象）与 Date 之间的转换、时区换算和按模式格式化
+ */
+import { type Locale, getI18nConfig, localizeDigits } from './i18n';
+import type { DatePickerMode } from './dateUtils';
+
+/** 不含时区的日历值，month 从 1 开始；时间模式下包含 hour（24 小时制）和 minute */
+export interface PlainDate {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+}
+
+/** 日期参数可以是 Date、'YYYY-MM-DD'（或 'YYYY-MM-DDTHH:mm'）字符串或 PlainDate */
+export type DateInput = Date | string | PlainDate;
+
+/** 回调中日期的格式：'date' 为 Date，'string' 为 'YYYY-MM-DD' 字符串，'object' 为 PlainDate */
+export type DateValueFormat = 'date' | 'string' | 'object';
+
+/** 各格式对应的回调日期类型 */
+export type FormattedDate<F extends DateValueFormat> = F extends 'string' ? string : F extends 'object' ? PlainDate : Date;
+
+export interface DateValueOptions {
+  /** 包含时间时，字符串和对象中带上时分 */
+  mode?: DatePickerMode;
+  /** IANA 时区，如 'Asia/Shanghai'；Date 按该时区的日期和时间解释，不传时使用设备时区 */
+  timeZone?: string;
+}
+
+// 字符串只读取字面上的年月日和时分，其后的秒和时区偏移不参与换算，避免跨时区时日期偏移一天
+const DATE_STRING_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 时区换算依赖 Intl，不支持的时区或环境返回 undefined，按设备时区处理
+function getZonedParts(date: Date, timeZone: string): PlainDate | undefined {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(item => item.type === type)?.value);
+    const zoned = { year: part('year'), month: part('month'), day: part('day'), hour: part('hour') % 24, minute: part('minute') };
+    return Object.values(zoned).some(Number.isNaN) ? undefined : zoned;
+  } catch {
+    return undefined;
+  }
+}
+
+const plainToLocalDate = ({ year, month, day, hour = 0, minute = 0 }: PlainDate) => new Date(year, month - 1, day, hour, minute);
+
+/** 把日期参数转为滚轮使用的本地时间；无法解析时返回 undefined */
+export function parseDateInput(input: DateInput | undefined, timeZone?: string): Date | undefined {
+  if (input === undefined) return undefined;
+  if (typeof input === 'string') {
+    const match = DATE_STRING_PATTERN.exec(input);
+    if (!match) return undefined;
+    const [, year, month, day, hour = '0', minute = '0'] = match;
+    return plainToLocalDate({ year: +year, month: +month, day: +day, hour: +hour, minute: +minute });
+  }
+  if (input instanceof Date) {
+    if (Number.isNaN(input.getTime())) return undefined;
+    const zoned = timeZone ? getZonedParts(input, timeZone) : undefined;
+    return zoned ? plainToLocalDate(zoned) : input;
+  }
+  return plainToLocalDate(input);
+}
+
+/** 本地时间的日历值，只在包含时间的模式下带上时分 */
+export function toPlainDate(date: Date, mode: DatePickerMode = 'date'): PlainDate {
+  const plain: PlainDate = { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+  if (mode !== 'date') {
+    plain.hour = date.getHours();
+    plain.minute = date.getMinutes();
+  }
+  return plain;
+}
+
+// 本地时间表示的日期和时间，换算为 timeZone 中同一日期和时间对应的时刻
+function fromZonedWallClock(date: Date, timeZone: string): Date {
+  const wallClock = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes());
+  const offsetAt = (time: number) => {
+    const zoned = getZonedParts(new Date(time), timeZone);
+    return zoned ? Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute) - time : undefined;
+  };
+  const offset = offsetAt(wallClock);
+  if (offset === undefined) return date;
+  // 夏令时切换附近第一次估算的偏移可能不对，用结果处的偏移再算一次
+  const adjustedOffset = offsetAt(wallClock - offset) ?? offset;
+  return new Date(wallClock - adjustedOffset);
+}
+
+/** 把滚轮上的本地时间转为回调使用的格式 */
+export function formatDateValue<F extends DateValueFormat>(
+  date: Date,
+  format: F,
+  options: DateValueOptions = {}
+): FormattedDate<F> {
+  const { mode = 'date', timeZone } = options;
+  if (format === 'object') {
+    return toPlainDate(date, mode) as FormattedDate<F>;
+  }
+  if (format === 'string') {
+    const text = `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    const time = mode !== 'date' ? `T${pad(date.getHours())}:${pad(date.getMinutes())}` : '';
+    return `${text}${time}` as FormattedDate<F>;
+  }
+  return (timeZone ? fromZonedWallClock(date, timeZone) : date) as FormattedDate<F>;
+}
+
+// 长的记号在前，保证 'MMM' 不会被当作 'MM' 和 'M'；方括号中的文字原样输出
+const FORMAT_TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMM|MM|M|DD|D|ddd|HH|H|hh|h|mm|A/g;
+
+/**
+ * 按模式格式化日期，月份名、星期、上午/下午和数字使用 locale 的 i18n 配置
+ *
+ * 支持 YYYY、YY、MMM（月份名，没有月份名的 locale 为数字加后缀）、MM、M、DD、D、ddd（星期简称）、
+ * HH、H、hh、h、mm、A（上午/下午），如 formatDate(date, 'YYYY-MM-DD')、formatDate(date, 'MMM D, YYYY', 'en-US')
+ */
+export function formatDate(date: DateInput, pattern: string, locale: Locale = 'zh-CN'): string {
+  const localDate = parseDateInput(date);
+  if (!localDate) return '';
+  const i18nConfig = getI18nConfig(locale);
+  const year = localDate.getFullYear();
+  const month = localDate.getMonth() + 1;
+  const hour = localDate.getHours();
+  const number = (value: number, length = 1) => localizeDigits(pad(value, length), i18nConfig.digits);
+
+  return pattern.replace(FORMAT_TOKEN_PATTERN, (token: string, literal?: string) => {
+    switch (token) {
+      case 'YYYY': return number(year, 4);
+      case 'YY': return number(year % 100, 2);
+      case 'MMM': return i18nConfig.monthNames?.[month - 1] ?? `${number(month)}${i18nConfig.monthSuffix}`;
+      case 'MM': return number(month, 2);
+      case 'M': return number(month);
+      case 'DD': return number(localDate.getDate(), 2);
+      case 'D': return number(localDate.getDate());
+      case 'ddd': return i18nConfig.weekdayNames[localDate.getDay()];
+      case 'HH': return number(hour, 2);
+      case 'H': return number(hour);
+      case 'hh': return number(hour % 12 || 12, 2);
+      case 'h': return number(hour % 12 || 12);
+      case 'mm': return number(localDate.getMinutes(), 2);
+      case 'A': return hour < 12 ? i18nConfig.am : i18nConfig.pm;
+      default: return literal ?? token;
+    }
+  });
+}
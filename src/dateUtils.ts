@@ -0,0 +1,613 @@
+/**
+ * 日期范围工具函数 - 纯函数，不依赖 React，可单独复用和测试
+ */
+import type { DateColumnOrder } from './i18n';
+import { type DatePickerCalendar, type CalendarFields, gregorianCalendar } from './calendars';
+
+export type DatePickerMode = 'date' | 'time' | 'datetime';
+
+/** 日期部分显示哪些列：仅年、年月、月日（不含年份）或年月日 */
+export type DatePrecision = 'year' | 'year-month' | 'month-day' | 'year-month-day';
+
+/** 按精度返回的结构化日期，只包含显示的列 */
+export interface DateValue {
+  year?: number;
+  month?: number;
+  day?: number;
+  /** 使用非公历历法时，对应的原历法字段 */
+  calendar?: CalendarFields;
+  /** 传入年龄相关的选项时，按参考日期计算的周岁；只在精度为年月日时提供 */
+  age?: number;
+}
+
+/** 禁用日期判断，传入当天 0:00 的日期，返回 true 表示不可选 */
+export type DateDisabledPredicate = (date: Date) => boolean;
+
+export type DatePickerColumn = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'meridiem';
+
+/** 各列选中的值，month 从 1 开始，hour 始终为 24 小时制；使用其他历法时年月日为该历法的值 */
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/** 可选范围，两端都包含在内 */
+export interface DateBounds {
+  minDate: Date;
+  maxDate: Date;
+}
+
+/** 决定各列取值的配置 */
+export interface DateColumnConfig {
+  mode: DatePickerMode;
+  precision: DatePrecision;
+  minuteInterval: number;
+  is24Hour: boolean;
+  /** 年、月、日列使用的历法，默认公历 */
+  calendar?: DatePickerCalendar;
+}
+
+export interface ResolveDateBoundsOptions {
+  minDate?: Date;
+  maxDate?: Date;
+  /** 是否允许选择今天之后的日期，默认 false（maxDate 会被限制到今天） */
+  allowFutureDates?: boolean;
+  mode?: DatePickerMode;
+  precision?: DatePrecision;
+  /** 用于计算“今天”的日期，默认当前时间 */
+  today?: Date;
+  /** 可选范围会被限制在历法支持的日期之内 */
+  calendar?: DatePickerCalendar;
+}
+
+export const DATE_PICKER_COLUMNS: DatePickerColumn[] = ['year', 'month', 'day', 'hour', 'minute', 'meridiem'];
+
+export const DEFAULT_MIN_DATE = new Date(1945, 0, 1);
+// 允许未来日期且未传入 maxDate 时，默认可选到今年之后的第 50 年年底
+export const DEFAULT_FUTURE_YEARS = 50;
+// 不含年份时使用闰年作为参考年份，保证二月可以选到 29 日
+export const LEAP_REFERENCE_YEAR = 2000;
+
+// 上午/下午列的值
+export const AM = 0;
+export const PM = 1;
+
+// 各精度下显示的日期列
+export const PRECISION_COLUMNS: Record<DatePrecision, DatePickerColumn[]> = {
+  'year': ['year'],
+  'year-month': ['year', 'month'],
+  'month-day': ['month', 'day'],
+  'year-month-day': ['year', 'month', 'day'],
+};
+
+// 各排列顺序下日期列的先后
+export const ORDER_COLUMNS: Record<DateColumnOrder, DatePickerColumn[]> = {
+  'YMD': ['year', 'month', 'day'],
+  'MDY': ['month', 'day', 'year'],
+  'DMY': ['day', 'month', 'year'],
+};
+
+export const DEFAULT_COLUMN_CONFIG: DateColumnConfig = {
+  mode: 'date',
+  precision: 'year-month-day',
+  minuteInterval: 1,
+  is24Hour: true,
+};
+
+const hasTimeColumns = (mode: DatePickerMode) => mode !== 'date';
+
+// 不含年份时，月、日不受 minDate/maxDate 限制，年份固定为参考闰年
+const hasYearColumn = (mode: DatePickerMode, precision: DatePrecision) =>
+  mode === 'time' || PRECISION_COLUMNS[precision].includes('year');
+
+// 只有显示日列时才按天禁用，仅年、年月精度和仅时间模式不受影响
+const hasDayColumn = (config: DateColumnConfig) =>
+  config.mode !== 'time' && PRECISION_COLUMNS[config.precision].includes('day');
+
+/** 实际使用的历法：不含年份（月日精度）时始终使用公历 */
+export function resolveCalendar(config: DateColumnConfig = DEFAULT_COLUMN_CONFIG): DatePickerCalendar {
+  return hasYearColumn(config.mode, config.precision) ? config.calendar ?? gregorianCalendar : gregorianCalendar;
+}
+
+/** 分钟步长需要能整除 60，否则按 1 分钟处理 */
+export function normalizeMinuteInterval(minuteInterval: number): number {
+  return minuteInterval > 0 && 60 % minuteInterval === 0 ? minuteInterval : 1;
+}
+
+/** 当前配置下显示的列：日期列按精度筛选并按 order 排列，之后是时、分和上午/下午 */
+export function getVisibleColumns(config: DateColumnConfig, order: DateColumnOrder = 'YMD'): DatePickerColumn[] {
+  const columns: DatePickerColumn[] = [];
+  if (config.mode !== 'time') {
+    const dateOrder = ORDER_COLUMNS[order] ?? ORDER_COLUMNS.YMD;
+    columns.push(...dateOrder.filter(column => PRECISION_COLUMNS[config.precision].includes(column)));
+  }
+  if (hasTimeColumns(config.mode)) {
+    columns.push('hour', 'minute');
+    if (!config.is24Hour) {
+      columns.push('meridiem');
+    }
+  }
+  return columns;
+}
+
+/** 计算实际可选范围：只选日期时时间设为 0:0:0:0，默认不超过今天 */
+export function resolveDateBounds(options: ResolveDateBoundsOptions = {}): DateBounds {
+  const {
+    minDate = DEFAULT_MIN_DATE,
+    maxDate,
+    allowFutureDates = false,
+    mode = 'date',
+    precision = 'year-month-day',
+    calendar,
+  } = options;
+  const withTime = hasTimeColumns(mode);
+
+  const today = new Date(options.today ?? Date.now());
+  today.setHours(0, 0, 0, 0);
+  // 选择时间时，今天的限制只作用于日期，今天内的任意时间都可选
+  const endOfToday = new Date(today);
+  if (withTime) {
+    endOfToday.setHours(23, 59, 0, 0);
+  }
+
+  if (!hasYearColumn(mode, precision)) {
+    return {
+      minDate: new Date(LEAP_REFERENCE_YEAR, 0, 1),
+      maxDate: new Date(LEAP_REFERENCE_YEAR, 11, 31, endOfToday.getHours(), endOfToday.getMinutes()),
+    };
+  }
+
+  const effectiveMinDate = new Date(minDate);
+  if (!withTime) {
+    effectiveMinDate.setHours(0, 0, 0, 0);
+  }
+  effectiveMinDate.setSeconds(0, 0);
+
+  let effectiveMaxDate: Date;
+  if (maxDate) {
+    effectiveMaxDate = new Date(maxDate);
+    if (!withTime) {
+      effectiveMaxDate.setHours(0, 0, 0, 0);
+    }
+    effectiveMaxDate.setSeconds(0, 0);
+    // 不允许未来日期时，超过今天的 maxDate 使用今天
+    if (!allowFutureDates && effectiveMaxDate > endOfToday) {
+      effectiveMaxDate = endOfToday;
+    }
+  } else if (allowFutureDates) {
+    effectiveMaxDate = new Date(
+      today.getFullYear() + DEFAULT_FUTURE_YEARS, 11, 31,
+      endOfToday.getHours(), endOfToday.getMinutes()
+    );
+  } else {
+    effectiveMaxDate = endOfToday;
+  }
+
+  // 历法只支持一定范围内的日期，例如农历为 1900-2100 年
+  if (calendar?.minDate && effectiveMinDate < calendar.minDate) {
+    effectiveMinDate.setTime(calendar.minDate.getTime());
+  }
+  if (calendar?.maxDate && effectiveMaxDate > calendar.maxDate) {
+    effectiveMaxDate = new Date(calendar.maxDate);
+    if (withTime) {
+      effectiveMaxDate.setHours(23, 59, 0, 0);
+    }
+  }
+
+  return { minDate: effectiveMinDate, maxDate: effectiveMaxDate };
+}
+
+/** 范围选择中编辑结束日期时的可选范围：下限跟随开始日期，上限受 maxRangeDays 限制 */
+export function getRangeEndBounds(start: Date, bounds: DateBounds, maxRangeDays?: number): DateBounds {
+  const minDate = start > bounds.minDate ? new Date(start) : bounds.minDate;
+  let maxDate = bounds.maxDate;
+  if (maxRangeDays !== undefined) {
+    const maxEnd = new Date(start);
+    maxEnd.setDate(maxEnd.getDate() + maxRangeDays);
+    if (maxEnd < maxDate) {
+      maxDate = maxEnd;
+    }
+  }
+  return { minDate, maxDate };
+}
+
+/** 把结束日期限制到开始日期之后、maxRangeDays 之内 */
+export function clampRangeEnd(start: Date, end: Date, bounds: DateBounds, maxRangeDays?: number): Date {
+  return clampDate(end, getRangeEndBounds(start, bounds, maxRangeDays));
+}
+
+/** 把日期限制在可选范围内 */
+export function clampDate(date: Date, bounds: DateBounds): Date {
+  if (date > bounds.maxDate) return new Date(bounds.maxDate);
+  if (date < bounds.minDate) return new Date(bounds.minDate);
+  return new Date(date);
+}
+
+// 构建年份列表
+export function buildYearList(bounds: DateBounds, calendar: DatePickerCalendar = gregorianCalendar): number[] {
+  const start = calendar.fromDate(bounds.minDate).year;
+  const end = calendar.fromDate(bounds.maxDate).year;
+  return Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => start + i);
+}
+
+// 构建月份列表（根据选中的年份）
+export function buildMonthList(
+  year: number,
+  bounds: DateBounds,
+  calendar: DatePickerCalendar = gregorianCalendar
+): number[] {
+  const minDate = calendar.fromDate(bounds.minDate);
+  const maxDate = calendar.fromDate(bounds.maxDate);
+  // 超出最小/最大日期所在年份的范围，返回空数组（不应该发生，但做保护）
+  if (year < minDate.year || year > maxDate.year) {
+    return [];
+  }
+  // 最小日期所在年份从最小月份开始，最大日期所在年份到最大月份结束
+  const minMonth = year === minDate.year ? minDate.month : 1;
+  const maxMonth = year === maxDate.year ? maxDate.month : calendar.getMonthCount(year);
+  return Array.from({ length: Math.max(0, maxMonth - minMonth + 1) }, (_, i) => minMonth + i);
+}
+
+// 构建日期列表（根据选中的年月）
+export function buildDayList(
+  year: number,
+  month: number,
+  bounds: DateBounds,
+  calendar: DatePickerCalendar = gregorianCalendar
+): number[] {
+  const minDate = calendar.fromDate(bounds.minDate);
+  const maxDate = calendar.fromDate(bounds.maxDate);
+  // 用 年*100+月 比较年月先后（农历闰年有 13 个月）
+  const yearMonth = year * 100 + month;
+  const minYearMonth = minDate.year * 100 + minDate.month;
+  const maxYearMonth = maxDate.year * 100 + maxDate.month;
+  // 如果选中的年月超出范围，返回空数组（不应该发生，但做保护）
+  if (yearMonth < minYearMonth || yearMonth > maxYearMonth) {
+    return [];
+  }
+
+  const totalDays = calendar.getDaysInMonth(year, month);
+  // 最小日期所在月份从最小日期开始，最大日期所在月份到最大日期结束
+  const minDay = yearMonth === minYearMonth ? minDate.day : 1;
+  const maxDay = yearMonth === maxYearMonth ? maxDate.day : totalDays;
+
+  return Array.from({ length: Math.max(0, maxDay - minDay + 1) }, (_, i) => minDay + i);
+}
+
+// 构建小时列表（根据选中的年月日），始终为 24 小时制
+export function buildHourList(
+  year: number,
+  month: number,
+  day: number,
+  bounds: DateBounds,
+  calendar: DatePickerCalendar = gregorianCalendar
+): number[] {
+  const { minDate, maxDate } = bounds;
+  const isSameDay = (date: Date) => {
+    const value = calendar.fromDate(date);
+    return value.year === year && value.month === month && value.day === day;
+  };
+  // 选中的是最小/最大日期当天时，小时受其时间限制
+  const minHour = isSameDay(minDate) ? minDate.getHours() : 0;
+  const maxHour = isSameDay(maxDate) ? maxDate.getHours() : 23;
+  return Array.from({ length: Math.max(0, maxHour - minHour + 1) }, (_, i) => minHour + i);
+}
+
+// 构建分钟列表（根据选中的年月日时），按 minuteInterval 取值
+export function buildMinuteList(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  bounds: DateBounds,
+  minuteInterval = 1,
+  calendar: DatePickerCalendar = gregorianCalendar
+): number[] {
+  const { minDate, maxDate } = bounds;
+  const isSameHour = (date: Date) => {
+    const value = calendar.fromDate(date);
+    return value.year === year && value.month === month && value.day === day && date.getHours() === hour;
+  };
+  // 选中的是最小/最大日期的那个小时时，分钟受其时间限制
+  const minMinute = isSameHour(minDate) ? minDate.getMinutes() : 0;
+  const maxMinute = isSameHour(maxDate) ? maxDate.getMinutes() : 59;
+  const minutes: number[] = [];
+  for (let minute = 0; minute < 60; minute += normalizeMinuteInterval(minuteInterval)) {
+    if (minute >= minMinute && minute <= maxMinute) {
+      minutes.push(minute);
+    }
+  }
+  return minutes;
+}
+
+// 构建上午/下午列表，只保留有可选小时的上午/下午
+export function buildMeridiemList(
+  year: number,
+  month: number,
+  day: number,
+  bounds: DateBounds,
+  calendar: DatePickerCalendar = gregorianCalendar
+): number[] {
+  const hours = buildHourList(year, month, day, bounds, calendar);
+  return [AM, PM].filter(meridiem => hours.some(hour => getMeridiem(hour) === meridiem));
+}
+
+export function getMeridiem(hour: number): number {
+  return hour >= 12 ? PM : AM;
+}
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+/** 同一月日的 years 年前（负数为之后）的 0:00；该年没有这一天（2 月 29 日）时取当月最后一天 */
+export function subtractYears(date: Date, years: number): Date {
+  const year = date.getFullYear() - years;
+  const day = Math.min(date.getDate(), getDaysInMonth(year, date.getMonth() + 1));
+  return new Date(year, date.getMonth(), day);
+}
+
+/** 出生日期在 referenceDate 当天的周岁；2 月 29 日出生时，平年在 3 月 1 日长一岁 */
+export function getAge(birthDate: Date, referenceDate: Date = new Date()): number {
+  const years = referenceDate.getFullYear() - birthDate.getFullYear();
+  const hasHadBirthday = referenceDate.getMonth() > birthDate.getMonth()
+    || (referenceDate.getMonth() === birthDate.getMonth() && referenceDate.getDate() >= birthDate.getDate());
+  return hasHadBirthday ? years : years - 1;
+}
+
+export interface AgeBoundsOptions {
+  /** 最小周岁，决定最晚的出生日期 */
+  minAge?: number;
+  /** 最大周岁，决定最早的出生日期 */
+  maxAge?: number;
+  /** 计算年龄的日期，默认今天 */
+  referenceDate?: Date;
+}
+
+/**
+ * 满足年龄限制的出生日期范围，两端都包含在内，与 getAge 的结果一致：
+ * 最晚为 minAge 年前的同一天，最早为 maxAge + 1 年前同一天的后一天；没有对应限制的一端为 undefined
+ */
+export function getAgeBounds(options: AgeBoundsOptions): Partial<DateBounds> {
+  const { minAge, maxAge, referenceDate = new Date() } = options;
+  const bounds: Partial<DateBounds> = {};
+  if (minAge !== undefined) {
+    bounds.maxDate = subtractYears(referenceDate, minAge);
+  }
+  if (maxAge !== undefined) {
+    const minDate = subtractYears(referenceDate, maxAge + 1);
+    minDate.setDate(minDate.getDate() + 1);
+    bounds.minDate = minDate;
+  }
+  return bounds;
+}
+
+/** 月历网格：固定 6 行 7 列，不属于该月的格子为 null；firstDayOfWeek 为 0（周日）到 6（周六） */
+export function buildMonthGrid(year: number, month: number, firstDayOfWeek = 0): (number | null)[][] {
+  const offset = (new Date(year, month - 1, 1).getDay() - firstDayOfWeek + 7) % 7;
+  const totalDays = getDaysInMonth(year, month);
+  return Array.from({ length: 6 }, (_, week) => Array.from({ length: 7 }, (__, weekday) => {
+    const day = week * 7 + weekday - offset + 1;
+    return day >= 1 && day <= totalDays ? day : null;
+  }));
+}
+
+/** 获取指定选中值下某一列的值列表 */
+export function getColumnValues(
+  column: DatePickerColumn,
+  parts: DateParts,
+  bounds: DateBounds,
+  config: DateColumnConfig = DEFAULT_COLUMN_CONFIG
+): number[] {
+  const calendar = resolveCalendar(config);
+  switch (column) {
+    case 'year':
+      return buildYearList(bounds, calendar);
+    case 'month':
+      return buildMonthList(parts.year, bounds, calendar);
+    case 'day':
+      return buildDayList(parts.year, parts.month, bounds, calendar);
+    case 'hour': {
+      const hours = buildHourList(parts.year, parts.month, parts.day, bounds, calendar);
+      // 12 小时制时，小时列只显示与当前上午/下午相同的小时
+      return config.is24Hour ? hours : hours.filter(hour => getMeridiem(hour) === getMeridiem(parts.hour));
+    }
+    case 'minute':
+      return buildMinuteList(parts.year, parts.month, parts.day, parts.hour, bounds, config.minuteInterval, calendar);
+    case 'meridiem':
+      return buildMeridiemList(parts.year, parts.month, parts.day, bounds, calendar);
+  }
+}
+
+/**
+ * 某一列能否循环滚动：只有月、日、时、分列，且可选值没有被 minDate/maxDate 截断时才循环
+ */
+export function isColumnLoopable(
+  column: DatePickerColumn,
+  parts: DateParts,
+  values: number[],
+  config: DateColumnConfig = DEFAULT_COLUMN_CONFIG
+): boolean {
+  const calendar = resolveCalendar(config);
+  switch (column) {
+    case 'month':
+      return values.length === calendar.getMonthCount(parts.year);
+    case 'day':
+      return values.length === calendar.getDaysInMonth(parts.year, parts.month);
+    case 'hour':
+      return values.length === (config.is24Hour ? 24 : 12);
+    case 'minute':
+      return values.length === 60 / normalizeMinuteInterval(config.minuteInterval);
+    default:
+      return false;
+  }
+}
+
+/** 获取某一列在选中值下对应的值 */
+export function getColumnValue(column: DatePickerColumn, parts: DateParts): number {
+  return column === 'meridiem' ? getMeridiem(parts.hour) : parts[column];
+}
+
+/** 修改某一列的值；切换上午/下午时保持 12 小时制下的小时不变 */
+export function setColumnValue(parts: DateParts, column: DatePickerColumn, value: number): DateParts {
+  if (column === 'meridiem') {
+    return { ...parts, hour: (parts.hour % 12) + (value === PM ? 12 : 0) };
+  }
+  return { ...parts, [column]: value };
+}
+
+/** 从升序列表中选择最接近的值 */
+export function pickNearest(values: number[], value: number): number {
+  if (values.includes(value)) return value;
+  if (value > values[values.length - 1]) return values[values.length - 1];
+  if (value < values[0]) return values[0];
+  return values.reduce((nearest, item) => (
+    Math.abs(item - value) < Math.abs(nearest - value) ? item : nearest
+  ), values[0]);
+}
+
+/**
+ * 依次确定年、月、日、时、分，每一列都取有效范围内最接近的值。
+ * 同步按列之间的依赖关系（年 → 月 → 日 → 时 → 分）进行，与列的显示顺序无关
+ */
+export function clampDateParts(
+  parts: DateParts,
+  bounds: DateBounds,
+  config: DateColumnConfig = DEFAULT_COLUMN_CONFIG
+): DateParts {
+  const result = { ...parts };
+  (['year', 'month', 'day', 'hour', 'minute'] as const).forEach(column => {
+    // 小时按完整的 24 小时列表取最接近的值，允许跨越上午/下午
+    const values = column === 'hour'
+      ? buildHourList(result.year, result.month, result.day, bounds, resolveCalendar(config))
+      : getColumnValues(column, result, bounds, config);
+    if (values.length > 0) {
+      result[column] = pickNearest(values, result[column]);
+    }
+  });
+  return result;
+}
+
+export function dateToParts(date: Date, calendar: DatePickerCalendar = gregorianCalendar): DateParts {
+  return {
+    ...calendar.fromDate(date),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+  };
+}
+
+export function isSameParts(a: DateParts, b: DateParts): boolean {
+  return a.year === b.year && a.month === b.month && a.day === b.day &&
+    a.hour === b.hour && a.minute === b.minute;
+}
+
+/** 选中值是否落在禁用日期上 */
+export function isPartsDisabled(
+  parts: DateParts,
+  config: DateColumnConfig = DEFAULT_COLUMN_CONFIG,
+  isDateDisabled?: DateDisabledPredicate
+): boolean {
+  if (!isDateDisabled || !hasDayColumn(config)) {
+    return false;
+  }
+  return isDateDisabled(resolveCalendar(config).toDate(parts.year, parts.month, parts.day));
+}
+
+/**
+ * 从指定日期开始，向后、向前交替查找可选范围内最近的未禁用日期，保留原来的时间。
+ * 范围内所有日期都被禁用时返回 undefined
+ */
+export function findNearestEnabledDate(
+  date: Date,
+  bounds: DateBounds,
+  isDateDisabled: DateDisabledPredicate
+): Date | undefined {
+  const minDay = new Date(bounds.minDate.getFullYear(), bounds.minDate.getMonth(), bounds.minDate.getDate());
+  const maxDay = new Date(bounds.maxDate.getFullYear(), bounds.maxDate.getMonth(), bounds.maxDate.getDate());
+  const dayAt = (offset: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+
+  for (let offset = 0; ; offset++) {
+    const later = dayAt(offset);
+    const earlier = dayAt(-offset);
+    const hasLater = later <= maxDay;
+    const hasEarlier = earlier >= minDay;
+    if (!hasLater && !hasEarlier) {
+      return undefined;
+    }
+    const found = [later, earlier].find(day => day >= minDay && day <= maxDay && !isDateDisabled(day));
+    if (found) {
+      found.setHours(date.getHours(), date.getMinutes(), 0, 0);
+      return found;
+    }
+  }
+}
+
+/**
+ * 计算打开选择器时的初始选中值：没有传入日期时使用今天（选择时间时使用当前时间），
+ * 先限制在可选范围内，再逐列取最接近的有效值，最后跳过禁用日期
+ */
+export function resolveInitialParts(
+  date: Date | undefined,
+  bounds: DateBounds,
+  config: DateColumnConfig = DEFAULT_COLUMN_CONFIG,
+  isDateDisabled?: DateDisabledPredicate
+): DateParts {
+  const withTime = hasTimeColumns(config.mode);
+  const dateToUse = date ? new Date(date) : new Date();
+  if (!withTime) {
+    dateToUse.setHours(0, 0, 0, 0);
+  }
+  if (!hasYearColumn(config.mode, config.precision)) {
+    // 先把日设为 1 再设置年份，避免 2 月 29 日在非闰年被进位到 3 月
+    const day = dateToUse.getDate();
+    dateToUse.setDate(1);
+    dateToUse.setFullYear(LEAP_REFERENCE_YEAR);
+    dateToUse.setDate(day);
+  }
+  const parts = clampDateParts(dateToParts(clampDate(dateToUse, bounds), resolveCalendar(config)), bounds, config);
+  return skipDisabledParts(parts, bounds, config, isDateDisabled);
+}
+
+/** 选中值落在禁用日期上时，移动到最近的可选日期；范围内没有可选日期时保持不变 */
+export function skipDisabledParts(
+  parts: DateParts,
+  bounds: DateBounds,
+  config: DateColumnConfig = DEFAULT_COLUMN_CONFIG,
+  isDateDisabled?: DateDisabledPredicate
+): DateParts {
+  if (!isDateDisabled || !isPartsDisabled(parts, config, isDateDisabled)) {
+    return parts;
+  }
+  const enabled = findNearestEnabledDate(partsToDate(parts, { ...config, mode: 'datetime' }), bounds, isDateDisabled);
+  return enabled ? clampDateParts(dateToParts(enabled, resolveCalendar(config)), bounds, config) : parts;
+}
+
+/** 选中值对应的日期，按精度归一化：未显示的月、日取 1，只选日期时时间为 0:00 */
+export function partsToDate(parts: DateParts, config: DateColumnConfig = DEFAULT_COLUMN_CONFIG): Date {
+  const dateColumns = config.mode === 'time' ? PRECISION_COLUMNS['year-month-day'] : PRECISION_COLUMNS[config.precision];
+  const month = dateColumns.includes('month') ? parts.month : 1;
+  const day = dateColumns.includes('day') ? parts.day : 1;
+  const date = resolveCalendar(config).toDate(parts.year, month, day);
+  if (hasTimeColumns(config.mode)) {
+    date.setHours(parts.hour, parts.minute);
+  }
+  return date;
+}
+
+/** 结构化日期，只包含该精度显示的列；传入非公历历法时附带原历法字段 */
+export function toDateValue(
+  date: Date,
+  precision: DatePrecision = 'year-month-day',
+  calendar?: DatePickerCalendar
+): DateValue {
+  const dateColumns = PRECISION_COLUMNS[precision];
+  const value: DateValue = {};
+  if (dateColumns.includes('year')) value.year = date.getFullYear();
+  if (dateColumns.includes('month')) value.month = date.getMonth() + 1;
+  if (dateColumns.includes('day')) value.day = date.getDate();
+  if (calendar && calendar.id !== gregorianCalendar.id) value.calendar = calendar.getFields(date);
+  return value;
+}
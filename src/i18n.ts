@@ -1,8 +1,17 @@
 /**
  * Internationalization configuration for DatePickerDialog
+ *
+ * Any BCP-47 locale is accepted. Month names, digits, suffixes and column order are
+ * generated from `Intl.DateTimeFormat` when it is available; the complete entries in
+ * `defaultI18n`, built-in texts for other languages and locales added through `registerLocale`
+ * are applied on top as overrides.
  */
 
-export type Locale = 'zh-CN' | 'en-US';
+// Known locales are listed for autocompletion, any other BCP-47 string is accepted too
+export type Locale = 'zh-CN' | 'en-US' | 'ja-JP' | 'ko-KR' | 'de-DE' | 'fr-FR' | 'es-ES' | (string & {});
+
+/** Order of the year (Y), month (M) and day (D) columns */
+export type DateColumnOrder = 'YMD' | 'MDY' | 'DMY';
 
 export interface DatePickerI18n {
   confirm: string;
@@ -10,16 +19,89 @@ export interface DatePickerI18n {
   yearSuffix: string;
   monthSuffix: string;
   daySuffix: string;
+  hourSuffix: string;
+  minuteSuffix: string;
+  am: string; // Label for the AM item in 12-hour mode
+  pm: string; // Label for the PM item in 12-hour mode
+  rangeStart: string; // Tab label for the start date in range mode
+  rangeEnd: string; // Tab label for the end date in range mode
+  dateOrder: DateColumnOrder; // Customary column order for the locale
+  weekdayNames: string[]; // Short weekday names starting with Sunday, for the calendar view
+  firstDayOfWeek: number; // First column of the calendar view, 0 = Sunday ... 6 = Saturday
+  yearLabel: string; // Screen reader names of the wheel columns
+  monthLabel: string;
+  dayLabel: string;
+  hourLabel: string;
+  minuteLabel: string;
+  meridiemLabel: string;
+  selectedDateLabel: string; // Announced before the full date when the selection changes
+  previousMonthLabel: string; // Screen reader names of the calendar view arrows
+  nextMonthLabel: string;
+  today: string; // Labels of the default quick-select presets
+  yesterday: string;
+  daysAgo: string; // '{count}' is replaced with the number of days, e.g. '{count} days ago'
   monthNames?: string[]; // For English month names (optional)
+  digits?: string[]; // Native digits 0-9 for locales that don't use ASCII digits (optional)
 }
 
-export const defaultI18n: Record<Locale, DatePickerI18n> = {
+// Used for any field that neither Intl nor an override provides
+const fallbackI18n: DatePickerI18n = {
+  confirm: 'Confirm',
+  cancel: 'Cancel',
+  yearSuffix: '',
+  monthSuffix: '',
+  daySuffix: '',
+  hourSuffix: '',
+  minuteSuffix: '',
+  am: 'AM',
+  pm: 'PM',
+  rangeStart: 'Start',
+  rangeEnd: 'End',
+  dateOrder: 'YMD',
+  weekdayNames: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+  firstDayOfWeek: 0,
+  yearLabel: 'Year',
+  monthLabel: 'Month',
+  dayLabel: 'Day',
+  hourLabel: 'Hour',
+  minuteLabel: 'Minute',
+  meridiemLabel: 'AM/PM',
+  selectedDateLabel: 'Selected date',
+  previousMonthLabel: 'Previous month',
+  nextMonthLabel: 'Next month',
+  today: 'Today',
+  yesterday: 'Yesterday',
+  daysAgo: '{count} days ago',
+};
+
+export const defaultI18n: Record<string, DatePickerI18n> = {
   'zh-CN': {
     confirm: '确认',
     cancel: '取消',
     yearSuffix: '年',
     monthSuffix: '月',
     daySuffix: '日',
+    hourSuffix: '时',
+    minuteSuffix: '分',
+    am: '上午',
+    pm: '下午',
+    rangeStart: '开始日期',
+    rangeEnd: '结束日期',
+    dateOrder: 'YMD',
+    weekdayNames: ['日', '一', '二', '三', '四', '五', '六'],
+    firstDayOfWeek: 1,
+    yearLabel: '年',
+    monthLabel: '月',
+    dayLabel: '日',
+    hourLabel: '时',
+    minuteLabel: '分',
+    meridiemLabel: '上午/下午',
+    selectedDateLabel: '已选日期',
+    previousMonthLabel: '上个月',
+    nextMonthLabel: '下个月',
+    today: '今天',
+    yesterday: '昨天',
+    daysAgo: '{count}天前',
   },
   'en-US': {
     confirm: 'Confirm',
@@ -27,6 +109,27 @@ export const defaultI18n: Record<Locale, DatePickerI18n> = {
     yearSuffix: '',
     monthSuffix: '',
     daySuffix: '',
+    hourSuffix: '',
+    minuteSuffix: '',
+    am: 'AM',
+    pm: 'PM',
+    rangeStart: 'Start',
+    rangeEnd: 'End',
+    dateOrder: 'MDY',
+    weekdayNames: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    firstDayOfWeek: 0,
+    yearLabel: 'Year',
+    monthLabel: 'Month',
+    dayLabel: 'Day',
+    hourLabel: 'Hour',
+    minuteLabel: 'Minute',
+    meridiemLabel: 'AM/PM',
+    selectedDateLabel: 'Selected date',
+    previousMonthLabel: 'Previous month',
+    nextMonthLabel: 'Next month',
+    today: 'Today',
+    yesterday: 'Yesterday',
+    daysAgo: '{count} days ago',
     monthNames: [
       'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
       'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
@@ -34,6 +137,238 @@ export const defaultI18n: Record<Locale, DatePickerI18n> = {
   },
 };
 
+// Built-in texts that Intl cannot generate (buttons, tabs, labels); the rest comes from buildIntlI18n
+const builtInOverrides: Record<string, Partial<DatePickerI18n>> = {
+  'ja-JP': {
+    confirm: '決定',
+    cancel: 'キャンセル',
+    rangeStart: '開始日',
+    rangeEnd: '終了日',
+    selectedDateLabel: '選択した日付',
+    previousMonthLabel: '前の月',
+    nextMonthLabel: '次の月',
+    today: '今日',
+    yesterday: '昨日',
+    daysAgo: '{count}日前',
+  },
+  'ko-KR': {
+    confirm: '확인',
+    cancel: '취소',
+    rangeStart: '시작일',
+    rangeEnd: '종료일',
+    selectedDateLabel: '선택한 날짜',
+    previousMonthLabel: '이전 달',
+    nextMonthLabel: '다음 달',
+    today: '오늘',
+    yesterday: '어제',
+    daysAgo: '{count}일 전',
+  },
+  'de-DE': {
+    confirm: 'Bestätigen',
+    cancel: 'Abbrechen',
+    rangeStart: 'Beginn',
+    rangeEnd: 'Ende',
+    selectedDateLabel: 'Ausgewähltes Datum',
+    previousMonthLabel: 'Vorheriger Monat',
+    nextMonthLabel: 'Nächster Monat',
+    today: 'Heute',
+    yesterday: 'Gestern',
+    daysAgo: 'Vor {count} Tagen',
+  },
+  'fr-FR': {
+    confirm: 'Valider',
+    cancel: 'Annuler',
+    rangeStart: 'Début',
+    rangeEnd: 'Fin',
+    selectedDateLabel: 'Date sélectionnée',
+    previousMonthLabel: 'Mois précédent',
+    nextMonthLabel: 'Mois suivant',
+    today: 'Aujourd’hui',
+    yesterday: 'Hier',
+    daysAgo: 'Il y a {count} jours',
+  },
+  'es-ES': {
+    confirm: 'Aceptar',
+    cancel: 'Cancelar',
+    rangeStart: 'Inicio',
+    rangeEnd: 'Fin',
+    selectedDateLabel: 'Fecha seleccionada',
+    previousMonthLabel: 'Mes anterior',
+    nextMonthLabel: 'Mes siguiente',
+    today: 'Hoy',
+    yesterday: 'Ayer',
+    daysAgo: 'Hace {count} días',
+  },
+};
+
+const registeredLocales: Record<string, Partial<DatePickerI18n>> = {};
+const configCache: Record<string, DatePickerI18n> = {};
+
+/**
+ * Registers (or extends) a locale so apps can add translations without patching the package.
+ * Registered fields take precedence over both Intl and the built-in texts.
+ * Mounted pickers pick up the change on their next render; register at startup to apply it from the first one.
+ */
+export function registerLocale(locale: Locale, config: Partial<DatePickerI18n>): void {
+  registeredLocales[locale] = { ...registeredLocales[locale], ...config };
+  Object.keys(configCache).forEach(key => {
+    delete configCache[key];
+  });
+}
+
+// Entry registered for another region of the same language, e.g. 'ja-JP' for 'ja' or 'en-US' for 'en-GB'
+function findLanguageEntry(
+  table: Record<string, Partial<DatePickerI18n>>,
+  locale: string
+): Partial<DatePickerI18n> | undefined {
+  const language = locale.split('-')[0].toLowerCase();
+  const key = Object.keys(table).find(item => item !== locale && item.split('-')[0].toLowerCase() === language);
+  return key ? table[key] : undefined;
+}
+
+function supportsIntl(): boolean {
+  return typeof Intl !== 'undefined' &&
+    typeof Intl.DateTimeFormat === 'function' &&
+    typeof Intl.DateTimeFormat.prototype.formatToParts === 'function';
+}
+
+// Text right after the given part, e.g. '年' in '2000年'. Spaced words like ' Uhr' are skipped
+// because they would not fit in a wheel column.
+function suffixAfter(parts: Intl.DateTimeFormatPart[], type: Intl.DateTimeFormatPartTypes): string {
+  const index = parts.findIndex(part => part.type === type);
+  const next = parts[index + 1];
+  if (index === -1 || !next || next.type !== 'literal' || /^\s/.test(next.value)) {
+    return '';
+  }
+  return next.value.trim();
+}
+
+function buildIntlI18n(locale: string): Partial<DatePickerI18n> {
+  if (!supportsIntl()) {
+    return {};
+  }
+  try {
+    const config: Partial<DatePickerI18n> = {};
+    const january = new Date(2000, 0, 1);
+    const format = (options: Intl.DateTimeFormatOptions, date: Date = january) =>
+      new Intl.DateTimeFormat(locale, options).formatToParts(date);
+
+    // Column order from the short numeric date, e.g. 01/01/2000 -> MDY
+    const order = format({ year: 'numeric', month: '2-digit', day: '2-digit' })
+      .filter(part => part.type === 'year' || part.type === 'month' || part.type === 'day')
+      .map(part => part.type[0].toUpperCase())
+      .join('');
+    if (order === 'YMD' || order === 'MDY' || order === 'DMY') {
+      config.dateOrder = order;
+    }
+
+    config.yearSuffix = suffixAfter(format({ year: 'numeric' }), 'year');
+    config.daySuffix = suffixAfter(format({ day: '2-digit' }), 'day');
+    config.hourSuffix = suffixAfter(format({ hour: '2-digit', hourCycle: 'h23' }), 'hour');
+
+    // Locales such as ja/ko/zh name months by number ('1月'); keep the padded number plus suffix
+    // for them and only use month names for locales with real names ('Jan', 'janv.')
+    const numericMonth = format({ month: 'numeric' }).find(part => part.type === 'month')?.value ?? '1';
+    const shortMonth = new Intl.DateTimeFormat(locale, { month: 'short' }).format(january);
+    if (shortMonth.includes(numericMonth)) {
+      config.monthSuffix = suffixAfter(format({ month: '2-digit' }), 'month');
+    } else {
+      const monthFormat = new Intl.DateTimeFormat(locale, { month: 'short' });
+      config.monthNames = Array.from({ length: 12 }, (_, i) => monthFormat.format(new Date(2000, i, 1)));
+    }
+
+    const dayPeriod = (hour: number) => format({ hour: 'numeric', hour12: true }, new Date(2000, 0, 1, hour))
+      .find(part => part.type === 'dayPeriod')?.value;
+    config.am = dayPeriod(9);
+    config.pm = dayPeriod(21);
+    if (!config.am || !config.pm) {
+      delete config.am;
+      delete config.pm;
+    }
+
+    // 2000-01-02 was a Sunday
+    const weekdayFormat = new Intl.DateTimeFormat(locale, { weekday: 'short' });
+    config.weekdayNames = Array.from({ length: 7 }, (_, i) => weekdayFormat.format(new Date(2000, 0, 2 + i)));
+
+    // Intl.Locale week info is not available everywhere; its firstDay counts Monday as 1 and Sunday as 7
+    if (typeof Intl.Locale === 'function') {
+      const weekLocale = new Intl.Locale(locale) as Intl.Locale & {
+        weekInfo?: { firstDay: number };
+        getWeekInfo?: () => { firstDay: number };
+      };
+      const firstDay = (weekLocale.getWeekInfo?.() ?? weekLocale.weekInfo)?.firstDay;
+      if (firstDay !== undefined) {
+        config.firstDayOfWeek = firstDay % 7;
+      }
+    }
+
+    // Column names such as 'Jahr' or '年' for screen readers; Intl.DisplayNames is missing on older engines
+    if (typeof Intl.DisplayNames === 'function') {
+      const fieldNames = new Intl.DisplayNames(locale, { type: 'dateTimeField' });
+      const fieldName = (field: string) => {
+        const name = fieldNames.of(field);
+        return name ? name.charAt(0).toLocaleUpperCase(locale) + name.slice(1) : undefined;
+      };
+      const labels = {
+        yearLabel: fieldName('year'),
+        monthLabel: fieldName('month'),
+        dayLabel: fieldName('day'),
+        hourLabel: fieldName('hour'),
+        minuteLabel: fieldName('minute'),
+        meridiemLabel: fieldName('dayPeriod'),
+      };
+      (Object.keys(labels) as (keyof typeof labels)[]).forEach(key => {
+        const label = labels[key];
+        if (label) config[key] = label;
+      });
+    }
+
+    // Preset labels such as 'Gestern' or 'Hace {count} días' from relative time formatting
+    if (typeof Intl.RelativeTimeFormat === 'function') {
+      const relativeFormat = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+      const capitalize = (text: string) => text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+      config.today = capitalize(relativeFormat.format(0, 'day'));
+      config.yesterday = capitalize(relativeFormat.format(-1, 'day'));
+      config.daysAgo = capitalize(relativeFormat.formatToParts(-30, 'day')
+        .map(part => (part.type === 'integer' ? '{count}' : part.value))
+        .join(''));
+    }
+
+    const numberFormat = new Intl.NumberFormat(locale, { useGrouping: false });
+    const digits = Array.from({ length: 10 }, (_, i) => numberFormat.format(i));
+    if (digits.some((digit, i) => digit !== String(i))) {
+      config.digits = digits;
+    }
+
+    return config;
+  } catch {
+    // Unsupported locale tag or incomplete Intl implementation
+    return {};
+  }
+}
+
 export function getI18nConfig(locale: Locale = 'zh-CN'): DatePickerI18n {
-  return defaultI18n[locale] || defaultI18n['zh-CN'];
+  if (!configCache[locale]) {
+    // Same-language entries only fill in what Intl cannot provide (button texts, tab labels),
+    // while exact entries override everything
+    configCache[locale] = {
+      ...fallbackI18n,
+      ...findLanguageEntry(defaultI18n, locale),
+      ...findLanguageEntry(builtInOverrides, locale),
+      ...findLanguageEntry(registeredLocales, locale),
+      ...buildIntlI18n(locale),
+      ...defaultI18n[locale],
+      ...builtInOverrides[locale],
+      ...registeredLocales[locale],
+    };
+  }
+  return configCache[locale];
+}
+
+/** Replaces ASCII digits with the locale's native digits, if it has any */
+export function localizeDigits(text: string, digits?: string[]): string {
+  if (!digits || digits.length !== 10) {
+    return text;
+  }
+  return text.replace(/[0-9]/g, digit => digits[Number(digit)]);
 }
@@ -1,4 +1,97 @@
 export { DatePickerDialog } from './DatePickerDialog';
-export type { DatePickerDialogProps } from './DatePickerDialog';
-export type { Locale, DatePickerI18n } from './i18n';
-export { getI18nConfig, defaultI18n } from './i18n';
+export { DatePickerProvider, useDatePickerDialog, showDatePicker } from './DatePickerProvider';
+export type {
+  DatePickerProviderProps,
+  ShowDatePicker,
+  ShowDatePickerOptions,
+  ShowDateRangePickerOptions,
+} from './DatePickerProvider';
+export type {
+  DatePickerDialogProps,
+  SingleDatePickerDialogProps,
+  RangeDatePickerDialogProps,
+  DatePickerToolbarProps,
+} from './DatePickerDialog';
+export { DatePicker, DATE_PICKER_TEST_ID } from './DatePicker';
+export type {
+  DatePickerProps,
+  DatePickerBaseProps,
+  SingleDatePickerProps,
+  RangeDatePickerProps,
+  DateRange,
+  DateRangeTab,
+  DatePickerDisplay,
+  DatePickerItemInfo,
+} from './DatePicker';
+export { WheelPicker, useWheelGeometry, WHEEL_ITEM_HEIGHT, WHEEL_VISIBLE_ITEM_COUNT, WHEEL_HEIGHT } from './WheelPicker';
+export type { WheelPickerProps, WheelEffect, WheelItemInfo, WheelGeometry } from './WheelPicker';
+export { formatDate, formatDateValue, parseDateInput, toPlainDate } from './dateFormat';
+export type { PlainDate, DateInput, DateValueFormat, FormattedDate, DateValueOptions } from './dateFormat';
+export { getDefaultDatePresets, resolvePresetDate } from './presets';
+export type { DatePickerPreset } from './presets';
+export { useDatePicker } from './useDatePicker';
+export type { UseDatePickerOptions, UseDatePickerResult } from './useDatePicker';
+export type {
+  DatePickerMode,
+  DatePrecision,
+  DateValue,
+  DatePickerColumn,
+  DateDisabledPredicate,
+  DateParts,
+  DateBounds,
+  DateColumnConfig,
+  ResolveDateBoundsOptions,
+  AgeBoundsOptions,
+} from './dateUtils';
+export {
+  resolveDateBounds,
+  getRangeEndBounds,
+  clampRangeEnd,
+  clampDate,
+  buildYearList,
+  buildMonthList,
+  buildDayList,
+  getColumnValues,
+  getVisibleColumns,
+  isColumnLoopable,
+  clampDateParts,
+  dateToParts,
+  partsToDate,
+  toDateValue,
+  getDaysInMonth,
+  buildMonthGrid,
+  resolveCalendar,
+  isPartsDisabled,
+  findNearestEnabledDate,
+  subtractYears,
+  getAge,
+  getAgeBounds,
+} from './dateUtils';
+export {
+  gregorianCalendar,
+  chineseLunarCalendar,
+  buddhistCalendar,
+  japaneseCalendar,
+  createEraCalendar,
+  getGanzhiYear,
+} from './calendars';
+export type {
+  DatePickerCalendar,
+  CalendarDate,
+  CalendarFields,
+  CalendarLabelContext,
+  EraCalendarOptions,
+} from './calendars';
+export { DatePickerThemeProvider, useDatePickerTheme, mergeTheme, lightTheme, darkTheme } from './theme';
+export type {
+  DatePickerTheme,
+  DatePickerThemeOverrides,
+  DatePickerThemeColors,
+  DatePickerThemeFonts,
+  DatePickerThemeRadius,
+  DatePickerThemeSpacing,
+  DatePickerColorScheme,
+  DatePickerThemeProviderProps,
+} from './theme';
+export type { Locale, DatePickerI18n, DateColumnOrder } from './i18n';
+export { getI18nConfig, defaultI18n, registerLocale, localizeDigits } from './i18n';
@@ -0,0 +1,42 @@
+/**
+ * 快捷日期 - 滚轮上方的一排快捷选项，如“今天”“昨天”“30 天前”，点击后滚轮滚动到对应日期
+ */
+import { type DatePickerI18n, localizeDigits } from './i18n';
+import { type DateInput, parseDateInput, formatDateValue } from './dateFormat';
+
+/** 快捷选项：显示的文本和对应的日期 */
+export interface DatePickerPreset {
+  label: string;
+  /** 固定的日期，或根据今天计算日期的函数；today 为今天 0:00，传入 timeZone 时为该时区的今天 */
+  date: DateInput | ((today: Date) => DateInput);
+}
+
+// 默认快捷选项中“N 天前”的天数
+const DEFAULT_DAYS_AGO = 30;
+
+const daysBefore = (today: Date, days: number) => {
+  const date = new Date(today);
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+/** 按 locale 生成默认的快捷选项：今天、昨天和 30 天前 */
+export function getDefaultDatePresets(i18n: DatePickerI18n): DatePickerPreset[] {
+  const daysAgoLabel = i18n.daysAgo.replace('{count}', localizeDigits(String(DEFAULT_DAYS_AGO), i18n.digits));
+  return [
+    { label: i18n.today, date: today => today },
+    { label: i18n.yesterday, date: today => daysBefore(today, 1) },
+    { label: daysAgoLabel, date: today => daysBefore(today, DEFAULT_DAYS_AGO) },
+  ];
+}
+
+/** 计算快捷选项对应的滚轮本地时间；无法解析时返回 undefined */
+export function resolvePresetDate(preset: DatePickerPreset, timeZone?: string, now: Date = new Date()): Date | undefined {
+  if (typeof preset.date !== 'function') {
+    return parseDateInput(preset.date, timeZone);
+  }
+  // 今天按 timeZone 计算，传给函数的是该时区今天 0:00 对应的时刻，返回值同样按该时区解释
+  const localToday = parseDateInput(now, timeZone) ?? now;
+  const startOfToday = new Date(localToday.getFullYear(), localToday.getMonth(), localToday.getDate());
+  return parseDateInput(preset.date(formatDateValue(startOfToday, 'date', { timeZone })), timeZone);
+}
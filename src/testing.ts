@@ -0,0 +1,150 @@
+/**
+ * 测试工具 - 在 React Native Testing Library 中驱动 DatePicker 和 DatePickerDialog，
+ * 通过 import { selectDate } from 'rn-date-picker-dialog/testing' 使用
+ *
+ * 滚轮通过屏幕阅读器的上下滑动操作逐项选择，与用户操作走同一条提交路径；
+ * 选中值在事件中同步提交，不依赖定时器，使用 fake timers 时同样有效
+ */
+import { fireEvent, type RenderResult } from '@testing-library/react-native';
+import { WheelPicker, type WheelPickerProps } from './WheelPicker';
+import { DATE_PICKER_TEST_ID, type DateRange, type DateRangeTab } from './DatePicker';
+import { type DateInput, parseDateInput } from './dateFormat';
+import { type DatePickerColumn, LEAP_REFERENCE_YEAR, getMeridiem } from './dateUtils';
+
+/** render 的返回值或 screen 中用到的查询 */
+export type DatePickerQueries = Pick<RenderResult, 'getByTestId' | 'UNSAFE_queryAllByType'>;
+
+// 查询返回的元素，从 Testing Library 的类型中取得，不直接依赖 react-test-renderer 的类型
+type TestInstance = ReturnType<RenderResult['getByTestId']>;
+
+export interface DatePickerTestOptions {
+  /** 与组件的 testID 相同，默认 'date-picker' */
+  testID?: string;
+}
+
+export interface SelectDateOptions extends DatePickerTestOptions {
+  /** 与组件的 timeZone 相同，Date 按该时区的日期和时间解释 */
+  timeZone?: string;
+}
+
+// 按这个顺序选择，年月改变后日列的可选值随之更新；上午/下午在小时之前，因为 12 小时制时小时列只包含当前上午/下午的小时
+const SELECT_ORDER: DatePickerColumn[] = ['year', 'month', 'day', 'meridiem', 'hour', 'minute'];
+
+// 列的 WheelPicker 实例，不显示该列时返回 undefined
+function findColumn(queries: DatePickerQueries, column: DatePickerColumn, testID: string): TestInstance | undefined {
+  const columnTestID = `${testID}-column-${column}`;
+  return queries.UNSAFE_queryAllByType(WheelPicker).find(instance => instance.props.testID === columnTestID);
+}
+
+const getColumnProps = (instance: TestInstance) => instance.props as WheelPickerProps<number>;
+
+/** 某一列当前选中的值（公历，小时为 24 小时制），不显示该列时返回 undefined */
+export function getColumnValue(
+  queries: DatePickerQueries,
+  column: DatePickerColumn,
+  options: DatePickerTestOptions = {}
+): number | undefined {
+  const instance = findColumn(queries, column, options.testID ?? DATE_PICKER_TEST_ID);
+  if (!instance) return undefined;
+  const { items, selectedIndex } = getColumnProps(instance);
+  return items[selectedIndex];
+}
+
+/** 某一列当前的可选值，不显示该列时返回空数组 */
+export function getColumnItems(
+  queries: DatePickerQueries,
+  column: DatePickerColumn,
+  options: DatePickerTestOptions = {}
+): number[] {
+  const instance = findColumn(queries, column, options.testID ?? DATE_PICKER_TEST_ID);
+  return instance ? getColumnProps(instance).items : [];
+}
+
+/**
+ * 滚轮上当前显示的日期；范围选择时为当前标签页的日期。
+ * 未显示的列按默认值补齐：月、日取 1，年份取 2000，时间取 0:00。
+ * 日期精度下与 onChange 一致；mode="time" 时日期部分固定为 2000-01-01，而 onChange 带有实际的日期
+ */
+export function getDisplayedDate(queries: DatePickerQueries, options: DatePickerTestOptions = {}): Date {
+  const value = (column: DatePickerColumn, fallback: number) => getColumnValue(queries, column, options) ?? fallback;
+  return new Date(
+    value('year', LEAP_REFERENCE_YEAR),
+    value('month', 1) - 1,
+    value('day', 1),
+    value('hour', 0),
+    value('minute', 0)
+  );
+}
+
+/**
+ * 把显示的各列依次滚到 date 对应的值，只支持公历的列；
+ * 目标值不在可选范围内或被禁用时抛出错误
+ */
+export function selectDate(queries: DatePickerQueries, date: DateInput, options: SelectDateOptions = {}): void {
+  const testID = options.testID ?? DATE_PICKER_TEST_ID;
+  const target = parseDateInput(date, options.timeZone);
+  if (!target) {
+    throw new Error(`selectDate: invalid date ${String(date)}`);
+  }
+  const targetValues: Record<DatePickerColumn, number> = {
+    year: target.getFullYear(),
+    month: target.getMonth() + 1,
+    day: target.getDate(),
+    hour: target.getHours(),
+    minute: target.getMinutes(),
+    meridiem: getMeridiem(target.getHours()),
+  };
+
+  SELECT_ORDER.forEach(column => {
+    const value = targetValues[column];
+    // 每一步之后重新查找，列的可选值和选中项会随其它列变化
+    const readColumn = () => {
+      const instance = findColumn(queries, column, testID);
+      return instance && getColumnProps(instance);
+    };
+    const initial = readColumn();
+    if (!initial) return;
+
+    // 每次操作至少移动一项，步数超过可选项数时说明目标无法到达
+    for (let step = 0; step <= initial.items.length; step++) {
+      const props = readColumn();
+      if (!props) return;
+      const targetIndex = props.items.indexOf(value);
+      if (targetIndex === -1 || props.isItemDisabled?.(value, targetIndex)) {
+        throw new Error(`selectDate: ${column} ${value} is not selectable`);
+      }
+      if (targetIndex === props.selectedIndex) return;
+      fireEvent(queries.getByTestId(`${testID}-column-${column}`), 'accessibilityAction', {
+        nativeEvent: { actionName: targetIndex > props.selectedIndex ? 'increment' : 'decrement' },
+      });
+    }
+    throw new Error(`selectDate: could not reach ${column} ${value}`);
+  });
+}
+
+/** 切换到范围选择的开始或结束标签页 */
+export function selectRangeTab(queries: DatePickerQueries, tab: DateRangeTab, options: DatePickerTestOptions = {}): void {
+  fireEvent.press(queries.getByTestId(`${options.testID ?? DATE_PICKER_TEST_ID}-tab-${tab}`));
+}
+
+/** 范围选择：先在开始标签页选择开始日期，再在结束标签页选择结束日期 */
+export function selectRange(queries: DatePickerQueries, range: DateRange<DateInput>, options: SelectDateOptions = {}): void {
+  selectRangeTab(queries, 'start', options);
+  selectDate(queries, range.start, options);
+  selectRangeTab(queries, 'end', options);
+  selectDate(queries, range.end, options);
+}
+
+/** 点击弹窗的确认按钮；按钮被禁用（选中的日期不可选）时抛出错误 */
+export function pressConfirm(queries: DatePickerQueries, options: DatePickerTestOptions = {}): void {
+  const button = queries.getByTestId(`${options.testID ?? DATE_PICKER_TEST_ID}-confirm`);
+  if (button.props.accessibilityState?.disabled) {
+    throw new Error('pressConfirm: the confirm button is disabled');
+  }
+  fireEvent.press(button);
+}
+
+/** 点击弹窗的取消按钮 */
+export function pressCancel(queries: DatePickerQueries, options: DatePickerTestOptions = {}): void {
+  fireEvent.press(queries.getByTestId(`${options.testID ?? DATE_PICKER_TEST_ID}-cancel`));
+}
@@ -0,0 +1,199 @@
+/**
+ * 主题 - 颜色、字体、圆角和间距，内置浅色和深色主题，默认跟随系统的深色模式
+ */
+import React, { createContext, useContext, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+
+export interface DatePickerThemeColors {
+  /** 弹窗外的遮罩 */
+  overlay: string;
+  /** 弹窗背景 */
+  background: string;
+  /** 工具栏底部分割线 */
+  toolbarBorder: string;
+  confirmText: string;
+  cancelText: string;
+  /** 选中指示器和当前范围标签页的背景 */
+  selectionBackground: string;
+  itemText: string;
+  disabledItemText: string;
+  /** 未选中的范围标签页文字 */
+  tabText: string;
+}
+
+export interface DatePickerThemeFonts {
+  /** 所有文字使用的字体，不传时使用系统字体 */
+  family?: string;
+  /** 确认、取消按钮的字号 */
+  buttonSize: number;
+  /** 范围标签页的字号 */
+  tabSize: number;
+  /** 选中项的字号，相邻项依次减小 */
+  itemSize: number;
+}
+
+export interface DatePickerThemeRadius {
+  /** 弹窗顶部圆角 */
+  container: number;
+  selection: number;
+  tab: number;
+}
+
+export interface DatePickerThemeSpacing {
+  toolbarHorizontal: number;
+  toolbarVertical: number;
+  /** 工具栏按钮的上下内边距 */
+  toolbarButtonVertical: number;
+  /** 滚轮区域左右留白 */
+  pickerHorizontal: number;
+  /** 弹窗中滚轮区域上方、下方的留白 */
+  dialogPickerTop: number;
+  dialogPickerBottom: number;
+  /** 范围选择标签页上方的留白 */
+  rangeTabsTop: number;
+  /** 快捷选项一行上方的留白和选项之间的间距 */
+  presetsTop: number;
+  presetGap: number;
+  /** 快捷选项的内边距 */
+  presetHorizontal: number;
+  presetVertical: number;
+}
+
+export interface DatePickerTheme {
+  colors: DatePickerThemeColors;
+  fonts: DatePickerThemeFonts;
+  radius: DatePickerThemeRadius;
+  spacing: DatePickerThemeSpacing;
+}
+
+/** 只需要传入要修改的字段 */
+export interface DatePickerThemeOverrides {
+  colors?: Partial<DatePickerThemeColors>;
+  fonts?: Partial<DatePickerThemeFonts>;
+  radius?: Partial<DatePickerThemeRadius>;
+  spacing?: Partial<DatePickerThemeSpacing>;
+}
+
+export type DatePickerColorScheme = 'light' | 'dark';
+
+const defaultFonts: DatePickerThemeFonts = {
+  buttonSize: 15,
+  tabSize: 15,
+  itemSize: 18,
+};
+
+const defaultRadius: DatePickerThemeRadius = {
+  container: 20,
+  selection: 10,
+  tab: 8,
+};
+
+const defaultSpacing: DatePickerThemeSpacing = {
+  toolbarHorizontal: 16,
+  toolbarVertical: 12,
+  toolbarButtonVertical: 4,
+  pickerHorizontal: 8,
+  dialogPickerTop: 40,
+  dialogPickerBottom: 56,
+  rangeTabsTop: 8,
+  presetsTop: 12,
+  presetGap: 8,
+  presetHorizontal: 12,
+  presetVertical: 6,
+};
+
+export const lightTheme: DatePickerTheme = {
+  colors: {
+    overlay: 'rgba(0, 0, 0, 0.54)',
+    background: '#FFFFFF',
+    toolbarBorder: '#EDEDED',
+    confirmText: '#8066D0',
+    cancelText: '#828897',
+    selectionBackground: '#F0EDF8',
+    itemText: '#31343B',
+    disabledItemText: '#C4C7CF',
+    tabText: '#828897',
+  },
+  fonts: defaultFonts,
+  radius: defaultRadius,
+  spacing: defaultSpacing,
+};
+
+export const darkTheme: DatePickerTheme = {
+  colors: {
+    overlay: 'rgba(0, 0, 0, 0.7)',
+    background: '#1C1C1E',
+    toolbarBorder: '#38383A',
+    confirmText: '#A391E8',
+    cancelText: '#8E8E93',
+    selectionBackground: '#2E2A3D',
+    itemText: '#F2F2F7',
+    disabledItemText: '#4A4A4F',
+    tabText: '#8E8E93',
+  },
+  fonts: defaultFonts,
+  radius: defaultRadius,
+  spacing: defaultSpacing,
+};
+
+/** 按分组合并主题，后面的覆盖前面的 */
+export function mergeTheme(base: DatePickerTheme, ...overrides: (DatePickerThemeOverrides | undefined)[]): DatePickerTheme {
+  return overrides.reduce<DatePickerTheme>((theme, override) => {
+    if (!override) return theme;
+    return {
+      colors: { ...theme.colors, ...override.colors },
+      fonts: { ...theme.fonts, ...override.fonts },
+      radius: { ...theme.radius, ...override.radius },
+      spacing: { ...theme.spacing, ...override.spacing },
+    };
+  }, base);
+}
+
+interface DatePickerThemeContextValue {
+  theme?: DatePickerThemeOverrides;
+  darkTheme?: DatePickerThemeOverrides;
+  colorScheme?: DatePickerColorScheme;
+}
+
+const DatePickerThemeContext = createContext<DatePickerThemeContextValue>({});
+
+export interface DatePickerThemeProviderProps {
+  /** 应用于所有选择器的主题 */
+  theme?: DatePickerThemeOverrides;
+  /** 深色模式下额外应用的主题 */
+  darkTheme?: DatePickerThemeOverrides;
+  /** 固定使用浅色或深色主题，不传时跟随系统 */
+  colorScheme?: DatePickerColorScheme;
+  children?: React.ReactNode;
+}
+
+/** 为其中所有的选择器统一设置主题 */
+export const DatePickerThemeProvider: React.FC<DatePickerThemeProviderProps> = ({
+  theme,
+  darkTheme: dark,
+  colorScheme,
+  children,
+}) => {
+  const value = useMemo(() => ({ theme, darkTheme: dark, colorScheme }), [theme, dark, colorScheme]);
+  return (
+    <DatePickerThemeContext.Provider value={value}>
+      {children}
+    </DatePickerThemeContext.Provider>
+  );
+};
+
+/**
+ * 当前使用的主题：先按深色模式选择内置主题，再依次应用 DatePickerThemeProvider 的主题和传入的 override
+ */
+export function useDatePickerTheme(override?: DatePickerThemeOverrides): DatePickerTheme {
+  const context = useContext(DatePickerThemeContext);
+  const systemScheme = useColorScheme();
+  const isDark = (context.colorScheme ?? systemScheme) === 'dark';
+
+  return useMemo(() => mergeTheme(
+    isDark ? darkTheme : lightTheme,
+    context.theme,
+    isDark ? context.darkTheme : undefined,
+    override
+  ), [isDark, context.theme, context.darkTheme, override]);
+}
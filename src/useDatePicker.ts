@@ -0,0 +1,208 @@
+/**
+ * 无界面的日期选择逻辑 - 提供选中值、各列可选值和修改方法，可用于自定义 UI
+ */
+import { useState, useMemo, useCallback, useRef } from 'react';
+import type { DateColumnOrder } from './i18n';
+import type { DatePickerCalendar } from './calendars';
+import {
+  type DatePickerMode,
+  type DatePrecision,
+  type DatePickerColumn,
+  type DateParts,
+  type DateBounds,
+  type DateColumnConfig,
+  type DateDisabledPredicate,
+  DATE_PICKER_COLUMNS,
+  normalizeMinuteInterval,
+  resolveDateBounds,
+  resolveInitialParts,
+  skipDisabledParts,
+  clampDateParts,
+  getColumnValues,
+  getColumnValue,
+  getVisibleColumns,
+  setColumnValue as setPartsColumnValue,
+  partsToDate,
+  isSameParts,
+  isPartsDisabled,
+} from './dateUtils';
+
+export interface UseDatePickerOptions {
+  initialDate?: Date;
+  minDate?: Date;
+  maxDate?: Date;
+  /** 是否允许选择今天之后的日期，默认 false（maxDate 会被限制到今天） */
+  allowFutureDates?: boolean;
+  /** 选择模式：仅日期、仅时间或日期加时间，默认 'date' */
+  mode?: DatePickerMode;
+  /** 日期精度，控制显示年、月、日中的哪些列，默认 'year-month-day' */
+  precision?: DatePrecision;
+  /** 年月日列的排列顺序，默认 'YMD' */
+  columnOrder?: DateColumnOrder;
+  /** 分钟列的步长，需能整除 60，默认 1 */
+  minuteInterval?: number;
+  /** 是否使用 24 小时制，默认 true；为 false 时包含上午/下午列 */
+  is24Hour?: boolean;
+  /** 禁用单个日期（如周末、节假日），只在显示日列时生效 */
+  isDateDisabled?: DateDisabledPredicate;
+  /** 年、月、日列使用的历法，默认公历 */
+  calendar?: DatePickerCalendar;
+  /** 当前时间，决定“今天”的上限和没有 initialDate 时的默认值；默认为设备的当前时间，按时区显示时传入该时区的当前时间 */
+  today?: Date;
+}
+
+export interface UseDatePickerResult {
+  /** 当前选中的年月日时分，始终在可选范围内；使用其他历法时年月日为该历法的值 */
+  parts: DateParts;
+  /** 选中值对应的日期，按精度归一化 */
+  date: Date;
+  /** 按显示顺序排列的列 */
+  columns: DatePickerColumn[];
+  /** 各列当前可选的值 */
+  options: Record<DatePickerColumn, number[]>;
+  /** 各列当前选中的值，meridiem 为 AM(0)/PM(1) */
+  values: Record<DatePickerColumn, number>;
+  /** 实际可选范围 */
+  bounds: DateBounds;
+  config: DateColumnConfig;
+  /** 当前选中的日期是否被禁用，此时不应允许确认 */
+  isDisabled: boolean;
+  /** 某一列的值在当前选中值下是否被禁用，目前只有日列会被禁用 */
+  isValueDisabled: (column: DatePickerColumn, value: number) => boolean;
+  /** 修改某一列，之后的列自动调整到最接近的有效值 */
+  setColumnValue: (column: DatePickerColumn, value: number) => void;
+  setYear: (year: number) => void;
+  setMonth: (month: number) => void;
+  setDay: (day: number) => void;
+  setHour: (hour: number) => void;
+  setMinute: (minute: number) => void;
+  setMeridiem: (meridiem: number) => void;
+  /** 选中指定日期（超出范围时限制到范围内），不传时回到 initialDate，返回实际选中的值 */
+  reset: (date?: Date) => DateParts;
+}
+
+export function useDatePicker(options: UseDatePickerOptions = {}): UseDatePickerResult {
+  const {
+    initialDate,
+    minDate,
+    maxDate,
+    allowFutureDates = false,
+    mode = 'date',
+    precision = 'year-month-day',
+    columnOrder = 'YMD',
+    minuteInterval = 1,
+    is24Hour = true,
+    isDateDisabled,
+    calendar,
+    today,
+  } = options;
+
+  // reset 中使用最新的判断函数，避免每次渲染传入新的函数导致 reset 变化
+  const isDateDisabledRef = useRef(isDateDisabled);
+  isDateDisabledRef.current = isDateDisabled;
+  const todayRef = useRef(today);
+  todayRef.current = today;
+
+  const config = useMemo<DateColumnConfig>(() => ({
+    mode,
+    precision,
+    minuteInterval: normalizeMinuteInterval(minuteInterval),
+    is24Hour,
+    calendar,
+  }), [mode, precision, minuteInterval, is24Hour, calendar]);
+
+  // 用时间戳做依赖，避免每次渲染传入新的 Date 对象导致重新计算
+  const minDateTime = minDate?.getTime();
+  const maxDateTime = maxDate?.getTime();
+  // 今天只在日期变化时影响可选范围
+  const todayStartTime = today && new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+  const bounds = useMemo(() => resolveDateBounds({
+    minDate: minDateTime !== undefined ? new Date(minDateTime) : undefined,
+    maxDate: maxDateTime !== undefined ? new Date(maxDateTime) : undefined,
+    allowFutureDates,
+    mode,
+    precision,
+    calendar,
+    today: todayStartTime !== undefined ? new Date(todayStartTime) : undefined,
+  }), [minDateTime, maxDateTime, allowFutureDates, mode, precision, calendar, todayStartTime]);
+
+  const [rawParts, setRawParts] = useState<DateParts>(() => resolveInitialParts(initialDate ?? today, bounds, config, isDateDisabled));
+
+  // 范围或配置变化后，选中值始终调整到有效范围内
+  const parts = useMemo(() => {
+    const clamped = clampDateParts(rawParts, bounds, config);
+    return isSameParts(clamped, rawParts) ? rawParts : clamped;
+  }, [rawParts, bounds, config]);
+
+  const columnOptions = useMemo(() => {
+    return DATE_PICKER_COLUMNS.reduce((record, column) => {
+      record[column] = getColumnValues(column, parts, bounds, config);
+      return record;
+    }, {} as Record<DatePickerColumn, number[]>);
+  }, [parts, bounds, config]);
+
+  const values = useMemo(() => {
+    return DATE_PICKER_COLUMNS.reduce((record, column) => {
+      record[column] = getColumnValue(column, parts);
+      return record;
+    }, {} as Record<DatePickerColumn, number>);
+  }, [parts]);
+
+  const columns = useMemo(() => getVisibleColumns(config, columnOrder), [config, columnOrder]);
+
+  const date = useMemo(() => partsToDate(parts, config), [parts, config]);
+
+  const isDisabled = isPartsDisabled(parts, config, isDateDisabled);
+
+  const isValueDisabled = useCallback((column: DatePickerColumn, value: number) => {
+    if (column !== 'day') return false;
+    return isPartsDisabled({ ...parts, day: value }, config, isDateDisabled);
+  }, [parts, config, isDateDisabled]);
+
+  const setColumnValue = useCallback((column: DatePickerColumn, value: number) => {
+    setRawParts(prev => {
+      const current = clampDateParts(prev, bounds, config);
+      const clamped = clampDateParts(setPartsColumnValue(current, column, value), bounds, config);
+      // 改变年、月后日期随之调整，落在禁用日期上时跳到最近的可选日期；只有直接选择日列时才会停在禁用日期上
+      const next = column === 'year' || column === 'month'
+        ? skipDisabledParts(clamped, bounds, config, isDateDisabledRef.current)
+        : clamped;
+      return isSameParts(next, prev) ? prev : next;
+    });
+  }, [bounds, config]);
+
+  const initialDateTime = initialDate?.getTime();
+  const reset = useCallback((resetDate?: Date) => {
+    const target = resetDate ?? (initialDateTime !== undefined ? new Date(initialDateTime) : todayRef.current);
+    const next = resolveInitialParts(target, bounds, config, isDateDisabledRef.current);
+    setRawParts(next);
+    return next;
+  }, [initialDateTime, bounds, config]);
+
+  const setYear = useCallback((year: number) => setColumnValue('year', year), [setColumnValue]);
+  const setMonth = useCallback((month: number) => setColumnValue('month', month), [setColumnValue]);
+  const setDay = useCallback((day: number) => setColumnValue('day', day), [setColumnValue]);
+  const setHour = useCallback((hour: number) => setColumnValue('hour', hour), [setColumnValue]);
+  const setMinute = useCallback((minute: number) => setColumnValue('minute', minute), [setColumnValue]);
+  const setMeridiem = useCallback((meridiem: number) => setColumnValue('meridiem', meridiem), [setColumnValue]);
+
+  return {
+    parts,
+    date,
+    columns,
+    options: columnOptions,
+    values,
+    bounds,
+    config,
+    isDisabled,
+    isValueDisabled,
+    setColumnValue,
+    setYear,
+    setMonth,
+    setDay,
+    setHour,
+    setMinute,
+    setMeridiem,
+    reset,
+  };
+}
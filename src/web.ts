@@ -0,0 +1,110 @@
+/**
+ * Web 和键盘 - react-native-web 上的滚动结束检测，以及键盘事件和按键输入跳转
+ */
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+
+export const isWeb = Platform.OS === 'web';
+
+/** react-native-web 传给 onKeyDown 的事件中用到的部分 */
+export interface WebKeyboardEvent {
+  nativeEvent: { key: string; altKey?: boolean; ctrlKey?: boolean; metaKey?: boolean };
+  timeStamp?: number;
+  preventDefault: () => void;
+}
+
+/** 只在 web 上传入 onKeyDown，原生平台的 View 没有这个属性 */
+export function webKeyboardProps(onKeyDown: (event: WebKeyboardEvent) => void): object {
+  return isWeb ? { onKeyDown } : {};
+}
+
+// 连续输入的间隔超过这个时间后重新开始匹配，如先输入“2019”，停顿后再输入“5”
+const TYPEAHEAD_RESET_MS = 1000;
+
+// 去掉开头的 0，让输入“5”也能匹配“05月”
+const stripLeadingZeros = (text: string) => text.replace(/^0+(?=\d)/, '');
+
+/**
+ * 按键输入跳转：记录连续输入的文本，返回第一个以它开头的项的索引；
+ * 连续输入没有匹配时只用最后一个字符再找一次。只比较事件的时间戳，不使用定时器
+ */
+export function useTypeahead(): (event: WebKeyboardEvent, labels: string[], isDisabled: (index: number) => boolean) => number | undefined {
+  const state = useRef({ text: '', time: -Infinity });
+
+  return (event, labels, isDisabled) => {
+    const { key } = event.nativeEvent;
+    const time = event.timeStamp ?? Date.now();
+    const text = time - state.current.time < TYPEAHEAD_RESET_MS ? state.current.text + key : key;
+    state.current = { text, time };
+
+    const find = (query: string) => {
+      const normalizedQuery = query.toLocaleLowerCase();
+      const index = labels.findIndex((label, i) => {
+        const normalizedLabel = label.toLocaleLowerCase();
+        return !isDisabled(i)
+          && (normalizedLabel.startsWith(normalizedQuery) || stripLeadingZeros(normalizedLabel).startsWith(normalizedQuery));
+      });
+      return index === -1 ? undefined : index;
+    };
+    const index = find(text);
+    if (index !== undefined || text === key) return index;
+    state.current = { text: key, time };
+    return find(key);
+  };
+}
+
+/** 可以输入跳转的按键：单个字符且没有按下 Ctrl、Alt、Meta，避免拦截浏览器快捷键 */
+export function isTypeaheadKey(event: WebKeyboardEvent): boolean {
+  const { key, altKey, ctrlKey, metaKey } = event.nativeEvent;
+  return key.length === 1 && key !== ' ' && !altKey && !ctrlKey && !metaKey;
+}
+
+// react-native-web 的 getScrollableNode 返回的 DOM 元素中用到的部分
+interface WebScrollNode {
+  addEventListener: (type: string, listener: () => void, options?: { passive?: boolean }) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+}
+
+// 浏览器不支持 scrollend 事件时，最后一次滚动事件之后等待的时间
+const SCROLL_END_FALLBACK_MS = 150;
+
+/**
+ * react-native-web 不会为鼠标滚轮、触控板和滚动条发出拖动和惯性滚动事件，这里直接监听 DOM：
+ * 收到鼠标滚轮事件时调用 onWheel，滚动停下（scrollend）时调用 onScrollEnd。
+ * 只有不支持 scrollend 的浏览器才用最后一次滚动事件之后的延时代替
+ */
+export function useWebScrollEnd(
+  getNode: () => unknown,
+  onWheel: () => void,
+  onScrollEnd: () => void
+): void {
+  const handlers = useRef({ onWheel, onScrollEnd });
+  handlers.current = { onWheel, onScrollEnd };
+
+  useEffect(() => {
+    if (!isWeb) return;
+    const node = getNode() as WebScrollNode | null | undefined;
+    if (!node || typeof node.addEventListener !== 'function') return;
+
+    const handleWheel = () => handlers.current.onWheel();
+    const handleScrollEnd = () => handlers.current.onScrollEnd();
+    let fallbackTimer: ReturnType<typeof setTimeout> | undefined;
+    const handleScroll = () => {
+      if (fallbackTimer !== undefined) clearTimeout(fallbackTimer);
+      fallbackTimer = setTimeout(handleScrollEnd, SCROLL_END_FALLBACK_MS);
+    };
+    const supportsScrollEnd = 'onscrollend' in node;
+
+    node.addEventListener('wheel', handleWheel, { passive: true });
+    if (supportsScrollEnd) {
+      node.addEventListener('scrollend', handleScrollEnd);
+    } else {
+      node.addEventListener('scroll', handleScroll, { passive: true });
+    }
+    return () => {
+      node.removeEventListener('wheel', handleWheel);
+      node.removeEventListener(supportsScrollEnd ? 'scrollend' : 'scroll', supportsScrollEnd ? handleScrollEnd : handleScroll);
+      if (fallbackTimer !== undefined) clearTimeout(fallbackTimer);
+    };
+  }, []);
+}
@@ -0,0 +1,83 @@
+/**
+ * 滚轮的选择状态机 - 纯函数，不依赖 React 和定时器
+ *
+ * 选中值只在滚动停下（松手后没有惯性滚动、惯性滚动结束）以及点击、无障碍操作时提交；
+ * 程序触发的滚动总是滚到已提交的位置，所以滚轮停下后，屏幕中心的项就是最后一次提交的值
+ */
+
+/** idle：静止或正在滚到已提交的位置；dragging：手指按住；momentum：松手后的惯性滚动 */
+export type WheelPhase = 'idle' | 'dragging' | 'momentum';
+
+export interface WheelEngineState {
+  phase: WheelPhase;
+  /** 已提交的位置（循环时为重复后列表中的索引） */
+  committed: number;
+}
+
+export type WheelEvent =
+  | { type: 'dragBegin' }
+  /** position 为停下位置最近的可选项，aligned 表示已经对齐，willMomentum 表示之后会有惯性滚动 */
+  | { type: 'dragEnd'; position: number; aligned: boolean; willMomentum: boolean }
+  | { type: 'momentumBegin' }
+  | { type: 'momentumEnd'; position: number; aligned: boolean }
+  /** 点击或无障碍操作选中某一项 */
+  | { type: 'select'; position: number }
+  /** 外部修改了选中项或列表，滚到对应的位置，不通知外部 */
+  | { type: 'sync'; position: number; animated: boolean };
+
+export interface WheelTransition {
+  state: WheelEngineState;
+  /** 需要通知外部的新选中位置 */
+  commit?: number;
+  /** 需要滚动到的位置 */
+  scrollTo?: { position: number; animated: boolean };
+}
+
+export function createWheelState(position: number): WheelEngineState {
+  return { phase: 'idle', committed: position };
+}
+
+// 滚动停下：提交停下的位置，没有对齐时再滚过去
+function settle(state: WheelEngineState, position: number, aligned: boolean): WheelTransition {
+  return {
+    state: { phase: 'idle', committed: position },
+    commit: position !== state.committed ? position : undefined,
+    scrollTo: aligned ? undefined : { position, animated: true },
+  };
+}
+
+/** 根据事件计算下一个状态，以及需要提交的值和需要执行的滚动 */
+export function wheelTransition(state: WheelEngineState, event: WheelEvent): WheelTransition {
+  switch (event.type) {
+    case 'dragBegin':
+      return { state: { ...state, phase: 'dragging' } };
+    case 'dragEnd':
+      if (event.willMomentum) {
+        return { state: { ...state, phase: 'momentum' } };
+      }
+      return settle(state, event.position, event.aligned);
+    case 'momentumBegin':
+      return { state: { ...state, phase: 'momentum' } };
+    case 'momentumEnd':
+      // 惯性滚动中又按住了滚轮，等这次拖动结束
+      if (state.phase === 'dragging') {
+        return { state };
+      }
+      return settle(state, event.position, event.aligned);
+    case 'select':
+      return {
+        state: { phase: 'idle', committed: event.position },
+        commit: event.position !== state.committed ? event.position : undefined,
+        scrollTo: { position: event.position, animated: true },
+      };
+    case 'sync':
+      // 用户正在滚动时以用户的操作为准，停下后提交的值会再同步回来
+      if (state.phase !== 'idle') {
+        return { state };
+      }
+      return {
+        state: { ...state, committed: event.position },
+        scrollTo: { position: event.position, animated: event.animated },
+      };
+  }
+}